@@ -33,6 +33,13 @@ export class ActionRegistry {
     return instance.actions.has(kind);
   }
 
+  public static async disposeAll(): Promise<void> {
+    const instance = ActionRegistry.getInstance();
+    for (const action of instance.actions.values()) {
+      await action.dispose();
+    }
+  }
+
   public static getAll(): Map<string, BaseAction> {
     const instance = ActionRegistry.getInstance();
     return new Map(instance.actions);
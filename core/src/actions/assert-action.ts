@@ -0,0 +1,104 @@
+import { BaseAction, ActionResult, StepDefinition, ActionContext } from './base-action';
+
+/**
+ * AssertAction class that extends BaseAction to check values from earlier steps.
+ *
+ * Every assertion is evaluated, even after one has failed, and reported as a separate result.
+ * `actual` and `expected` use the step variable syntax, so whole references keep their type.
+ * `matcher` is optional; when given, `expected` is used as its operand (e.g. `matcher: $gt`).
+ * Without it, `expected` is compared as in responseValidation and may itself contain matchers.
+ *
+ * example step definition:
+ * ```yaml
+ * - name: Cross-check API and database
+ *   kind: Assert
+ *   params:
+ *     assertions:
+ *       - name: API returns the inserted user id
+ *         actual: "{api-call.output.response.body.userId}"
+ *         expected: "{setup-data.output.result.rows[0].id}"
+ *       - name: Order count is positive
+ *         actual: "{create-order.output.result.lastQuery.rows[0].order_count}"
+ *         matcher: $gt
+ *         expected: 0
+ *       - name: Email looks valid
+ *         actual: "{api-call.output.response.body.email}"
+ *         expected: { $regex: '@example\.com$' }
+ * ```
+ */
+export class AssertAction extends BaseAction {
+  public async execute(step: StepDefinition, context?: ActionContext): Promise<ActionResult> {
+    const validation = this.validateStepDefinition(step);
+    if (!validation.success) {
+      return {
+        success: false,
+        output: { error: 'Validation failed', details: validation.errors }
+      };
+    }
+
+    const results = [];
+    for (const [index, assertion] of step.params.assertions.entries()) {
+      const name = assertion.name || `Assertion #${index + 1}`;
+      const expected = assertion.matcher ? { [assertion.matcher]: assertion.expected } : assertion.expected;
+      const failures = this.assert(assertion.actual, expected, '$');
+      const result = {
+        name,
+        success: failures.length === 0,
+        actual: assertion.actual,
+        expected,
+        failures
+      };
+      results.push(result);
+      await context?.reportChildStep?.(name, result.success, result);
+    }
+
+    const failed = results.filter(result => !result.success).length;
+    const output = {
+      total: results.length,
+      passed: results.length - failed,
+      failed,
+      results
+    };
+
+    if (failed > 0) {
+      return {
+        success: false,
+        output: { error: `${failed} of ${results.length} assertion(s) failed`, ...output }
+      };
+    }
+
+    return { success: true, output };
+  }
+
+  private validateStepDefinition(step: StepDefinition): { success: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    if (!step.params) {
+      errors.push('Parameters are required');
+      return { success: false, errors };
+    }
+
+    if (!Array.isArray(step.params.assertions) || step.params.assertions.length === 0) {
+      errors.push('Assertions must be a non-empty array');
+      return { success: false, errors };
+    }
+
+    step.params.assertions.forEach((assertion: any, index: number) => {
+      if (!assertion || typeof assertion !== 'object') {
+        errors.push(`Assertion at index ${index} must be an object`);
+        return;
+      }
+      if (!('actual' in assertion)) {
+        errors.push(`Assertion at index ${index} must have an actual value`);
+      }
+      if (!('expected' in assertion)) {
+        errors.push(`Assertion at index ${index} must have an expected value`);
+      }
+      if (assertion.matcher !== undefined && (typeof assertion.matcher !== 'string' || !assertion.matcher.startsWith('$'))) {
+        errors.push(`Matcher at index ${index} must be a matcher name such as $eq or $gt`);
+      }
+    });
+
+    return { success: errors.length === 0, errors };
+  }
+}
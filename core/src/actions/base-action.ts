@@ -1,6 +1,27 @@
+import { Assertion, AssertionFailure } from '../assertion';
+import { JsonPath } from '../json-path';
+import { AttachmentWriter } from '../reporters/base-reporter';
+
 export interface ActionResult {
   success: boolean;
   output: any;
+  // Set for a step that did not run because its if condition was false
+  skipped?: boolean;
+}
+
+export interface RetryPolicy {
+  attempts?: number;
+  delay?: number;
+  backoff?: 'fixed' | 'exponential';
+  maxDelay?: number;
+  on?: ('failure' | 'error' | 'timeout')[];
+}
+
+export interface LoopOptions {
+  // Number of iterations that run at the same time
+  parallel?: number;
+  // Stops starting new iterations after the first failed one
+  failFast?: boolean;
 }
 
 export interface StepDefinition {
@@ -10,8 +31,63 @@ export interface StepDefinition {
   params?: any;
   if?: string;
   depends_on?: string[];
+  outputs?: Record<string, any>;
+  timeout?: number;
+  retry?: RetryPolicy;
+  until?: string;
+  // Composite file run by a step of kind Composite, and the inputs passed to it
+  uses?: string;
+  with?: Record<string, any>;
+  // Runs the step once per item of a list, or a number of times, with {item} and {index} bound
+  foreach?: any;
+  repeat?: number | string;
+  loop?: LoopOptions;
+  // Nested steps run by a step of kind Group
+  steps?: StepDefinition[];
+}
+
+export interface ActionContext {
+  // Aborted when the step exceeds its timeout
+  signal?: AbortSignal;
+  // Directory of the test case file, used to resolve relative file paths in params
+  baseDir?: string;
+  // State shared by the steps of one test case, e.g. the RestApiCall cookie jar
+  session?: Map<string, any>;
+  // Isolation requested by the test case, e.g. 'transaction' to roll back database changes at the end
+  isolation?: string;
+  // Registers a callback that runs once when the test case ends, whether it passed or not
+  onTestCaseEnd?(callback: () => Promise<void>): void;
+  // Reports a nested result under the running step, e.g. one entry per assertion
+  reportChildStep?(name: string, success: boolean, output: any): Promise<void>;
+  // Adds an attachment to the running step that is written while the step runs, e.g. command output
+  createAttachment?(name: string, contentType: string): Promise<AttachmentWriter | undefined>;
 }
 
 export abstract class BaseAction {
-  public abstract execute(step: StepDefinition): Promise<ActionResult>;
+  public abstract execute(step: StepDefinition, context?: ActionContext): Promise<ActionResult>;
+
+  /**
+   * Releases resources that the action keeps across steps, such as connection pools. Called once when the run ends.
+   */
+  public async dispose(): Promise<void> {}
+
+  /**
+   * Matches an actual value against an expected value or matcher, see Assertion for the syntax.
+   */
+  protected assert(actual: any, expected: any, path: string = '$'): AssertionFailure[] {
+    return Assertion.match(actual, expected, path);
+  }
+
+  /**
+   * Matches the results of JSONPath queries, e.g. { '$.body.items[?(@.active)].id': { $contains: [3] } }.
+   */
+  protected assertJsonPath(actual: any, expectations: Record<string, any>): AssertionFailure[] {
+    return Object.entries(expectations).flatMap(([query, expected]) => {
+      try {
+        return Assertion.match(JsonPath.query(actual, query), expected, query);
+      } catch (error) {
+        return [{ path: query, message: error instanceof Error ? error.message : 'Unknown error', expected, actual: undefined }];
+      }
+    });
+  }
 }
\ No newline at end of file
@@ -0,0 +1,168 @@
+import { ActionResult, StepDefinition, ActionContext } from './base-action';
+import { PostgreSQLAction } from './postgresql-action';
+import { parse as parseCsv } from 'csv-parse/sync';
+import * as YAML from 'yamljs';
+import * as fs from 'fs';
+import * as path from 'path';
+
+interface TableFixture {
+  table: string;
+  rows: Record<string, any>[];
+}
+
+/**
+ * DbFixtureAction class that loads rows into PostgreSQL tables from fixture files.
+ *
+ * YAML and JSON files map table names to lists of rows and are loaded in the order written, so
+ * parent tables should come before the tables that reference them. A CSV file holds the rows of one
+ * table, with the column names in the header row; the table name is taken from `table` or from the
+ * file name (`test_schema.users.csv`). Empty CSV fields are loaded as NULL.
+ *
+ * example step definition:
+ * ```yaml
+ * - kind: DbFixture
+ *   name: Load users and orders
+ *   params:
+ *     files:
+ *       - ../fixtures/users-and-orders.yaml
+ *       - file: ../fixtures/products.csv
+ *         table: test_schema.products
+ *     truncate: true
+ *     restartIdentity: true
+ * ```
+ *
+ * example fixture file:
+ * ```yaml
+ * test_schema.users:
+ *   - name: Alice
+ *     email: alice@example.com
+ * test_schema.orders:
+ *   - user_id: 1
+ *     product_name: Laptop
+ * ```
+ *
+ * With `truncate: true` every table in the fixtures is emptied first (`restartIdentity` and `cascade`
+ * add RESTART IDENTITY and CASCADE). All rows are loaded in one transaction, or in a savepoint of the
+ * test case transaction with `isolation: transaction`. The inserted rows, including generated ids,
+ * are returned in `output.tables[n].rows`.
+ */
+export class DbFixtureAction extends PostgreSQLAction {
+  public async execute(step: StepDefinition, context?: ActionContext): Promise<ActionResult> {
+    try {
+      const errors = this.validateFixtureStep(step);
+      if (errors.length > 0) {
+        return {
+          success: false,
+          output: { error: 'Validation failed', details: errors }
+        };
+      }
+
+      const baseDir = context?.baseDir || process.cwd();
+      const files = Array.isArray(step.params.files) ? step.params.files : [step.params.files];
+      const fixtures = files.flatMap((file: any) => this.loadFixtureFile(file, baseDir));
+
+      return await this.withClient(step, context, true, async client => {
+        if (step.params.truncate) {
+          const tables = Array.from(new Set(fixtures.map((fixture: TableFixture) => this.quoteIdentifier(fixture.table))));
+          if (tables.length > 0) {
+            const options = `${step.params.restartIdentity ? ' RESTART IDENTITY' : ''}${step.params.cascade ? ' CASCADE' : ''}`;
+            await client.query(`TRUNCATE ${tables.join(', ')}${options}`);
+          }
+        }
+
+        const tables: any[] = [];
+        for (const fixture of fixtures as TableFixture[]) {
+          const rows: any[] = [];
+          for (const row of fixture.rows) {
+            const columns = Object.keys(row);
+            const query = columns.length > 0
+              ? `INSERT INTO ${this.quoteIdentifier(fixture.table)} (${columns.map(column => this.quoteIdentifier(column)).join(', ')}) ` +
+                `VALUES (${columns.map((_, index) => `$${index + 1}`).join(', ')}) RETURNING *`
+              : `INSERT INTO ${this.quoteIdentifier(fixture.table)} DEFAULT VALUES RETURNING *`;
+            const result = await client.query(query, columns.map(column => this.toParameter(row[column])));
+            rows.push(...result.rows);
+          }
+          tables.push({ table: fixture.table, rowCount: rows.length, rows });
+        }
+
+        return {
+          success: true,
+          output: {
+            totalRows: tables.reduce((total, table) => total + table.rowCount, 0),
+            tables
+          }
+        };
+      });
+    } catch (error) {
+      return {
+        success: false,
+        output: {
+          error: error instanceof Error ? error.message : 'Unknown error occurred',
+          stack: error instanceof Error ? error.stack : undefined
+        }
+      };
+    }
+  }
+
+  private loadFixtureFile(entry: string | { file: string; table?: string }, baseDir: string): TableFixture[] {
+    const file = typeof entry === 'string' ? entry : entry.file;
+    const filePath = path.resolve(baseDir, file);
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Fixture file not found: ${filePath}`);
+    }
+
+    const content = fs.readFileSync(filePath, 'utf8');
+    const extension = path.extname(filePath).toLowerCase();
+    const table = (typeof entry === 'object' && entry.table) || path.basename(filePath, extension);
+
+    if (extension === '.csv') {
+      const rows = parseCsv(content, {
+        columns: true,
+        bom: true,
+        skip_empty_lines: true,
+        cast: (value: string) => (value === '' ? null : value)
+      });
+      return [{ table, rows }];
+    }
+
+    const data = extension === '.json' ? JSON.parse(content) : YAML.parse(content);
+    if (Array.isArray(data)) {
+      return [{ table, rows: data }];
+    }
+    if (!data || typeof data !== 'object') {
+      throw new Error(`Fixture file ${file} must map table names to lists of rows`);
+    }
+    return Object.entries(data).map(([name, rows]) => {
+      if (!Array.isArray(rows)) {
+        throw new Error(`Rows of table '${name}' in fixture file ${file} must be a list`);
+      }
+      return { table: name, rows };
+    });
+  }
+
+  // Objects are stored as JSON; arrays are left to the driver, which sends them as PostgreSQL arrays
+  private toParameter(value: any): any {
+    return value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date)
+      ? JSON.stringify(value)
+      : value;
+  }
+
+  private validateFixtureStep(step: StepDefinition): string[] {
+    const errors: string[] = [];
+    if (!step.params) {
+      return ['Parameters are required'];
+    }
+
+    const files = Array.isArray(step.params.files) ? step.params.files : [step.params.files];
+    if (step.params.files === undefined || files.length === 0) {
+      errors.push('files is required');
+    } else if (files.some((file: any) => typeof file !== 'string' && typeof file?.file !== 'string')) {
+      errors.push('Each entry of files must be a path or an object with file and optional table');
+    }
+
+    if (step.params.connection !== undefined && typeof step.params.connection !== 'string') {
+      errors.push('Connection must be the name of a connection in actions.postgresql.connections');
+    }
+    return errors;
+  }
+}
@@ -0,0 +1,214 @@
+import { ActionResult, StepDefinition, ActionContext } from './base-action';
+import { PostgreSQLAction } from './postgresql-action';
+import { Assertion, AssertionFailure } from '../assertion';
+import { Config } from '../config';
+import * as YAML from 'yamljs';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * DbSnapshotAction class that compares the contents of a table or query with a stored snapshot file.
+ *
+ * The snapshot is a YAML or JSON list of rows. Columns listed in `ignoreColumns`, such as generated
+ * ids and timestamps, are left out of both the comparison and the snapshot. Rows of a `table` are
+ * compared regardless of their order unless `orderBy` (column names, each optionally followed by
+ * `asc` or `desc`) is given; rows of a `query` keep the order returned by the query. Snapshot values
+ * may be replaced by matchers (see Assertion) by hand.
+ *
+ * example step definitions:
+ * ```yaml
+ * - kind: DbSnapshot
+ *   name: Users match the snapshot
+ *   params:
+ *     table: test_schema.users
+ *     ignoreColumns: [id, created_at]
+ *     snapshot: ../snapshots/users.yaml
+ *
+ * - kind: DbSnapshot
+ *   name: Order totals match the snapshot
+ *   params:
+ *     query: SELECT user_id, SUM(price) AS total FROM test_schema.orders GROUP BY user_id ORDER BY user_id
+ *     snapshot: ../snapshots/order-totals.json
+ * ```
+ *
+ * In update mode (`update: true` on the step, or `snapshots.update: true` in config, e.g. via the
+ * SNAPSHOTS_UPDATE environment variable) the snapshot file is rewritten with the current rows instead.
+ */
+export class DbSnapshotAction extends PostgreSQLAction {
+  public async execute(step: StepDefinition, context?: ActionContext): Promise<ActionResult> {
+    try {
+      const errors = this.validateSnapshotStep(step);
+      if (errors.length > 0) {
+        return {
+          success: false,
+          output: { error: 'Validation failed', details: errors }
+        };
+      }
+
+      const { table, query, values = [], orderBy, ignoreColumns = [], snapshot } = step.params;
+      const sql = query || `SELECT * FROM ${this.quoteIdentifier(table)}${orderBy ? ` ORDER BY ${this.orderByClause(orderBy)}` : ''}`;
+      const queryRows = await this.withClient<Record<string, any>[]>(step, context, false, async client => (await client.query(sql, values)).rows);
+
+      // Unordered table rows are sorted only to keep the snapshot file stable
+      const unordered = !!table && !orderBy;
+      let rows = queryRows.map((row: Record<string, any>) => this.normalizeRow(row, ignoreColumns));
+      if (unordered) {
+        rows = this.sortRows(rows);
+      }
+
+      const snapshotPath = path.resolve(context?.baseDir || process.cwd(), snapshot);
+      const update = step.params.update ?? Config.get('snapshots.update');
+      if (update === true || update === 'true') {
+        fs.mkdirSync(path.dirname(snapshotPath), { recursive: true });
+        const content = snapshotPath.endsWith('.json') ? `${JSON.stringify(rows, null, 2)}\n` : YAML.stringify(rows, 10, 2);
+        fs.writeFileSync(snapshotPath, content);
+        return {
+          success: true,
+          output: { snapshot: snapshotPath, updated: true, rowCount: rows.length }
+        };
+      }
+
+      if (!fs.existsSync(snapshotPath)) {
+        return {
+          success: false,
+          output: {
+            error: `Snapshot file not found: ${snapshotPath}. Run with SNAPSHOTS_UPDATE=true to create it`,
+            rows
+          }
+        };
+      }
+
+      const content = fs.readFileSync(snapshotPath, 'utf8');
+      const expected = (snapshotPath.endsWith('.json') ? JSON.parse(content) : YAML.parse(content)) || [];
+      // Snapshot rows may hold matchers, so unordered rows are paired by matching instead of by sorting
+      const failures = unordered && Array.isArray(expected)
+        ? this.matchUnorderedRows(rows, expected)
+        : [...this.assert(rows, expected, '$.rows'), ...this.findExtraColumns(rows, expected)];
+
+      if (failures.length > 0) {
+        return {
+          success: false,
+          output: {
+            error: 'Snapshot mismatch',
+            snapshot: snapshotPath,
+            validationErrors: failures,
+            rows
+          }
+        };
+      }
+
+      return {
+        success: true,
+        output: { snapshot: snapshotPath, rowCount: rows.length }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        output: {
+          error: error instanceof Error ? error.message : 'Unknown error occurred',
+          stack: error instanceof Error ? error.stack : undefined
+        }
+      };
+    }
+  }
+
+  // Converts driver values into the plain values that a YAML or JSON snapshot can hold
+  private normalizeRow(row: Record<string, any>, ignoreColumns: string[]): Record<string, any> {
+    const normalized: Record<string, any> = {};
+    for (const [column, value] of Object.entries(row)) {
+      if (ignoreColumns.includes(column)) continue;
+      normalized[column] = value instanceof Date
+        ? value.toISOString()
+        : Buffer.isBuffer(value) ? value.toString('base64') : value;
+    }
+    return normalized;
+  }
+
+  private sortRows(rows: any[]): any[] {
+    return rows
+      .map(row => ({ key: JSON.stringify(row), row }))
+      .sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0))
+      .map(entry => entry.row);
+  }
+
+  // Quotes every column of orderBy, e.g. `[user_id, created_at desc]`, so it cannot inject SQL
+  private orderByClause(orderBy: string | string[]): string {
+    const columns = (Array.isArray(orderBy) ? orderBy : orderBy.split(',')).map(column => column.trim()).filter(Boolean);
+    return columns.map(column => {
+      const [, name, direction] = /^(.+?)(?:\s+(asc|desc))?$/i.exec(column)!;
+      return `${this.quoteIdentifier(name)}${direction ? ` ${direction.toUpperCase()}` : ''}`;
+    }).join(', ');
+  }
+
+  // Pairs every snapshot row with the first unpaired row that matches it, as the $unordered matcher does
+  private matchUnorderedRows(rows: any[], expected: any[]): AssertionFailure[] {
+    if (rows.length !== expected.length) {
+      return [{
+        path: '$.rows.length',
+        message: `Expected $.rows to have ${expected.length} element(s), got ${rows.length}`,
+        expected: expected.length,
+        actual: rows.length
+      }];
+    }
+
+    const remaining = rows.map((row, index) => ({ row, index }));
+    return expected.flatMap(expectedRow => {
+      const position = remaining.findIndex(({ row }) => Assertion.match(row, expectedRow).length === 0);
+      if (position === -1) {
+        return [{
+          path: '$.rows',
+          message: `Expected $.rows to contain a row matching ${JSON.stringify(expectedRow)}`,
+          expected: expectedRow,
+          actual: undefined
+        }];
+      }
+      const [{ row, index }] = remaining.splice(position, 1);
+      return this.findExtraColumnsOfRow(row, expectedRow, index);
+    });
+  }
+
+  // Objects in the snapshot match partially, so columns missing from the snapshot are reported separately
+  private findExtraColumns(rows: any[], expected: any): AssertionFailure[] {
+    if (!Array.isArray(expected) || rows.length !== expected.length) {
+      return [];
+    }
+    return rows.flatMap((row, index) => this.findExtraColumnsOfRow(row, expected[index], index));
+  }
+
+  private findExtraColumnsOfRow(row: Record<string, any>, expectedRow: any, index: number): AssertionFailure[] {
+    if (!expectedRow || typeof expectedRow !== 'object') return [];
+    return Object.keys(row)
+      .filter(column => !(column in expectedRow))
+      .map(column => ({
+        path: Assertion.childPath(`$.rows[${index}]`, column),
+        message: `Column '${column}' is not in the snapshot; add it to the snapshot or to ignoreColumns`,
+        expected: undefined,
+        actual: row[column]
+      }));
+  }
+
+  private validateSnapshotStep(step: StepDefinition): string[] {
+    const errors: string[] = [];
+    if (!step.params) {
+      return ['Parameters are required'];
+    }
+
+    if (!step.params.table === !step.params.query) {
+      errors.push('Exactly one of table or query is required');
+    }
+    if (typeof step.params.snapshot !== 'string') {
+      errors.push('snapshot must be the path of a YAML or JSON file');
+    }
+    const { orderBy } = step.params;
+    if (orderBy !== undefined && !(typeof orderBy === 'string' || (Array.isArray(orderBy) && orderBy.every(column => typeof column === 'string')))) {
+      errors.push('orderBy must be a column name or a list of column names, each optionally followed by asc or desc');
+    }
+    if (step.params.ignoreColumns !== undefined && !Array.isArray(step.params.ignoreColumns)) {
+      errors.push('ignoreColumns must be a list of column names');
+    }
+    if (step.params.values !== undefined && !Array.isArray(step.params.values)) {
+      errors.push('Values must be an array');
+    }
+    return errors;
+  }
+}
@@ -0,0 +1,196 @@
+import { ActionResult, StepDefinition, ActionContext } from './base-action';
+import { RestApiCallAction } from './rest-api-action';
+import { AssertionFailure } from '../assertion';
+import { Config } from '../config';
+import { buildSchema, parse, validate, GraphQLSchema, GraphQLError } from 'graphql';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * GraphQLAction class that extends RestApiCallAction to send GraphQL operations.
+ *
+ * The operation is POSTed as `{ query, variables, operationName }` to `url` (or `actions.graphql.url`).
+ * `queryFile` loads the query from a `.graphql` file instead of `query`. With `schema`, the path of an
+ * SDL file, the query is validated against the schema before it is sent. `headers`, `auth`,
+ * `cookieJar` and `timeout` work as in RestApiCall.
+ *
+ * example step definition:
+ * ```yaml
+ * - kind: GraphQL
+ *   id: get-user
+ *   name: Fetch a user
+ *   params:
+ *     url: https://api.example.com/graphql
+ *     queryFile: ./queries/get-user.graphql
+ *     operationName: GetUser
+ *     variables:
+ *       id: "{create-user.output.data.createUser.id}"
+ *     schema: ./schemas/users.graphql
+ *     responseValidation:
+ *       data:
+ *         user:
+ *           name: Alice
+ *       jsonPath:
+ *         "$.data.user.roles[*]": { $contains: [admin] }
+ * ```
+ *
+ * A response with a non-empty `errors` array fails the step, unless `allowErrors: true` is set or
+ * `responseValidation.errors` describes the expected errors. The output holds `data`, `errors` and
+ * `extensions` directly, e.g. `{get-user.output.data.user.id}`, and the HTTP response under `response`.
+ *
+ * responseValidation values may use the matchers described in Assertion; `jsonPath` queries run over
+ * `{ data, errors, extensions }`.
+ */
+export class GraphQLAction extends RestApiCallAction {
+  private static schemas: Map<string, GraphQLSchema> = new Map();
+
+  public async execute(step: StepDefinition, context?: ActionContext): Promise<ActionResult> {
+    const validation = this.validateGraphQLStep(step);
+    if (!validation.success) {
+      return {
+        success: false,
+        output: { error: 'Validation failed', details: validation.errors }
+      };
+    }
+
+    const baseDir = context?.baseDir || process.cwd();
+    let query: string;
+    try {
+      query = step.params.queryFile ? fs.readFileSync(path.resolve(baseDir, step.params.queryFile), 'utf8') : step.params.query;
+      if (step.params.schema) {
+        const queryErrors = this.validateQuery(query, path.resolve(baseDir, step.params.schema));
+        if (queryErrors.length > 0) {
+          return {
+            success: false,
+            output: {
+              error: `Query is not valid against the schema ${step.params.schema}`,
+              validationErrors: queryErrors.map(error => ({ message: error.message, locations: error.locations }))
+            }
+          };
+        }
+      }
+    } catch (error) {
+      return {
+        success: false,
+        output: { error: error instanceof Error ? error.message : 'Unknown error' }
+      };
+    }
+
+    const httpResult = await super.execute({
+      ...step,
+      params: {
+        url: step.params.url || Config.get('actions.graphql.url'),
+        method: 'POST',
+        headers: { Accept: 'application/graphql-response+json, application/json', ...step.params.headers },
+        body: {
+          query,
+          ...(step.params.variables !== undefined ? { variables: step.params.variables } : {}),
+          ...(step.params.operationName !== undefined ? { operationName: step.params.operationName } : {})
+        },
+        bodyType: 'json',
+        auth: step.params.auth,
+        cookieJar: step.params.cookieJar,
+        timeout: step.params.timeout
+      }
+    }, context);
+    if (!httpResult.success) {
+      return httpResult;
+    }
+
+    const response = httpResult.output.response;
+    const body = response.body && typeof response.body === 'object' ? response.body : {};
+    const result = {
+      data: body.data,
+      errors: body.errors,
+      extensions: body.extensions,
+      response
+    };
+
+    if (body.data === undefined && body.errors === undefined) {
+      return {
+        success: false,
+        output: { error: `Response is not a GraphQL result (status ${response.status})`, ...result }
+      };
+    }
+
+    const responseValidation = step.params.responseValidation || {};
+    const allowErrors = step.params.allowErrors === true || responseValidation.errors !== undefined;
+    if (!allowErrors && Array.isArray(body.errors) && body.errors.length > 0) {
+      const messages = body.errors.map((error: any) => error?.message).join('; ');
+      return {
+        success: false,
+        output: { error: `GraphQL response contains ${body.errors.length} error(s): ${messages}`, ...result }
+      };
+    }
+
+    const errors = this.validateGraphQLResponse(result, responseValidation);
+    if (errors.length > 0) {
+      return {
+        success: false,
+        output: { error: 'Response validation failed', validationErrors: errors, ...result }
+      };
+    }
+
+    return { success: true, output: result };
+  }
+
+  private validateQuery(query: string, schemaPath: string): readonly GraphQLError[] {
+    let schema = GraphQLAction.schemas.get(schemaPath);
+    if (!schema) {
+      if (!fs.existsSync(schemaPath)) {
+        throw new Error(`Schema file not found: ${schemaPath}`);
+      }
+      schema = buildSchema(fs.readFileSync(schemaPath, 'utf8'));
+      GraphQLAction.schemas.set(schemaPath, schema);
+    }
+
+    try {
+      return validate(schema, parse(query));
+    } catch (error) {
+      // parse throws a single syntax error
+      return [error as GraphQLError];
+    }
+  }
+
+  private validateGraphQLResponse(result: any, validation: any): AssertionFailure[] {
+    const errors: AssertionFailure[] = [];
+
+    if (validation.statusCode !== undefined) {
+      errors.push(...this.assert(result.response.status, validation.statusCode, '$.status'));
+    }
+    for (const key of ['data', 'errors', 'extensions']) {
+      if (validation[key] !== undefined) {
+        errors.push(...this.assert(result[key], validation[key], `$.${key}`));
+      }
+    }
+    if (validation.jsonPath !== undefined) {
+      const { data, errors: graphqlErrors, extensions } = result;
+      errors.push(...this.assertJsonPath({ data, errors: graphqlErrors, extensions }, validation.jsonPath));
+    }
+
+    return errors;
+  }
+
+  private validateGraphQLStep(step: StepDefinition): { success: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    if (!step.params) {
+      errors.push('Parameters are required');
+      return { success: false, errors };
+    }
+
+    if (!step.params.url && !Config.get('actions.graphql.url')) {
+      errors.push('URL is required (url or actions.graphql.url)');
+    }
+
+    if ((step.params.query === undefined) === (step.params.queryFile === undefined)) {
+      errors.push('Exactly one of query or queryFile is required');
+    }
+
+    if (step.params.variables !== undefined && (typeof step.params.variables !== 'object' || Array.isArray(step.params.variables))) {
+      errors.push('Variables must be an object');
+    }
+
+    return { success: errors.length === 0, errors };
+  }
+}
@@ -0,0 +1,295 @@
+import { BaseAction, ActionResult, StepDefinition, ActionContext } from './base-action';
+import { AssertionFailure } from '../assertion';
+import { Config } from '../config';
+import { GrpcReflection } from '../grpc-reflection';
+import * as grpc from '@grpc/grpc-js';
+import * as protoLoader from '@grpc/proto-loader';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Field names are kept as written in the .proto file, and 64-bit integers and enums are read as strings
+const LOADER_OPTIONS: protoLoader.Options = { keepCase: true, longs: String, enums: String, defaults: true, oneofs: true };
+
+interface GrpcCallResult {
+  status: { code: number; name: string; details: string };
+  metadata: Record<string, any>;
+  trailers: Record<string, any>;
+  message?: any;
+  messages?: any[];
+}
+
+/**
+ * GrpcAction class that extends BaseAction to call gRPC methods.
+ *
+ * Service definitions are loaded from the `.proto` files in `protoFiles` (relative to the test case
+ * file, with imports resolved from `includeDirs`), or through server reflection when no files are
+ * given. Unary and server-streaming methods are supported; `request` is the request message with the
+ * field names of the `.proto` file.
+ *
+ * example step definition:
+ * ```yaml
+ * - kind: Grpc
+ *   id: get-user
+ *   name: Fetch a user
+ *   params:
+ *     address: localhost:50051
+ *     protoFiles: ./protos/users.proto
+ *     service: users.v1.UserService
+ *     method: GetUser
+ *     request:
+ *       user_id: "{create-user.output.message.id}"
+ *     metadata:
+ *       authorization: Bearer {secrets.apiToken}
+ *     timeout: 5000
+ *     responseValidation:
+ *       status: OK
+ *       message:
+ *         name: Alice
+ *       metadata:
+ *         x-served-by: { $any: true }
+ * ```
+ *
+ * `method` may also be written as `users.v1.UserService/GetUser`. The output holds `status`
+ * (`{ code, name, details }`), the response `metadata` and `trailers`, and `message` for unary calls
+ * or `messages` for server-streaming calls. A status other than OK fails the step unless
+ * `responseValidation.status` expects it, as a code name such as `NOT_FOUND` or a number.
+ *
+ * `address`, `timeout`, `protoFiles` and `includeDirs` default to `actions.grpc` in config. With
+ * `tls: true` (or `actions.grpc.tls.enabled`) the connection uses TLS with the `ca`, `cert` and `key`
+ * files configured under `actions.grpc.tls`.
+ *
+ * responseValidation values may use the matchers described in Assertion; `jsonPath` queries run over
+ * the whole output.
+ */
+export class GrpcAction extends BaseAction {
+  private static definitions: Map<string, protoLoader.PackageDefinition> = new Map();
+
+  public async execute(step: StepDefinition, context?: ActionContext): Promise<ActionResult> {
+    const validation = this.validateStepDefinition(step);
+    if (!validation.success) {
+      return {
+        success: false,
+        output: { error: 'Validation failed', details: validation.errors }
+      };
+    }
+
+    const address = step.params.address || Config.get('actions.grpc.address');
+    const { service, method } = this.parseMethod(step);
+    let client: grpc.Client | undefined;
+    try {
+      const credentials = this.getCredentials(step);
+      const methodDefinition = await this.findMethod(step, context, address, credentials, service, method);
+      if (methodDefinition.requestStream) {
+        throw new Error(`${service}/${method} is a client-streaming method; only unary and server-streaming methods are supported`);
+      }
+
+      client = new grpc.Client(address, credentials);
+      const result = await this.call(client, methodDefinition, step, context);
+
+      const responseValidation = step.params.responseValidation || {};
+      if (result.status.code !== grpc.status.OK && responseValidation.status === undefined) {
+        return {
+          success: false,
+          output: { error: `gRPC call failed with status ${result.status.name}: ${result.status.details}`, ...result }
+        };
+      }
+
+      const errors = this.validateResult(result, responseValidation);
+      if (errors.length > 0) {
+        return {
+          success: false,
+          output: { error: 'Response validation failed', validationErrors: errors, ...result }
+        };
+      }
+
+      return { success: true, output: result };
+    } catch (error) {
+      return {
+        success: false,
+        output: { error: error instanceof Error ? error.message : 'Unknown error' }
+      };
+    } finally {
+      client?.close();
+    }
+  }
+
+  private call(client: grpc.Client, definition: protoLoader.MethodDefinition<any, any>, step: StepDefinition, context?: ActionContext): Promise<GrpcCallResult> {
+    const metadata = new grpc.Metadata();
+    for (const [key, value] of Object.entries(step.params.metadata || {})) {
+      for (const item of Array.isArray(value) ? value : [value]) {
+        metadata.add(key, key.endsWith('-bin') ? Buffer.from(String(item), 'base64') : String(item));
+      }
+    }
+    const timeout = step.params.timeout ?? Config.get('actions.grpc.timeout');
+    const options: grpc.CallOptions = timeout ? { deadline: Date.now() + Number(timeout) } : {};
+    const request = step.params.request || {};
+
+    return new Promise(resolve => {
+      const messages: any[] = [];
+      let responseMetadata: Record<string, any> = {};
+      const finish = (status: grpc.StatusObject) => {
+        context?.signal?.removeEventListener('abort', cancel);
+        resolve({
+          status: { code: status.code, name: grpc.status[status.code], details: status.details },
+          metadata: responseMetadata,
+          trailers: this.toObject(status.metadata),
+          ...(definition.responseStream ? { messages } : { message: messages[0] })
+        });
+      };
+
+      let call: grpc.ClientUnaryCall | grpc.ClientReadableStream<any>;
+      if (definition.responseStream) {
+        const stream = client.makeServerStreamRequest(definition.path, definition.requestSerialize, definition.responseDeserialize, request, metadata, options);
+        stream.on('data', message => messages.push(message));
+        // Errors are reported through the status event as well
+        stream.on('error', () => {});
+        call = stream;
+      } else {
+        call = client.makeUnaryRequest(definition.path, definition.requestSerialize, definition.responseDeserialize, request, metadata, options, (error, message) => {
+          if (!error) messages.push(message);
+        });
+      }
+      call.on('metadata', received => {
+        responseMetadata = this.toObject(received);
+      });
+      call.on('status', finish);
+
+      const cancel = () => call.cancel();
+      context?.signal?.addEventListener('abort', cancel);
+    });
+  }
+
+  private async findMethod(
+    step: StepDefinition,
+    context: ActionContext | undefined,
+    address: string,
+    credentials: grpc.ChannelCredentials,
+    service: string,
+    method: string
+  ): Promise<protoLoader.MethodDefinition<any, any>> {
+    const protoFiles = step.params.protoFiles ?? Config.get('actions.grpc.protoFiles');
+    let definition: protoLoader.PackageDefinition;
+    let source: string;
+    if (protoFiles) {
+      // Files from params are relative to the test case, files from config to the working directory
+      const baseDir = step.params.protoFiles ? context?.baseDir || process.cwd() : process.cwd();
+      const files = (Array.isArray(protoFiles) ? protoFiles : [protoFiles]).map((file: string) => path.resolve(baseDir, file));
+      const includeDirs = (step.params.includeDirs ?? Config.get('actions.grpc.includeDirs') ?? []).map((dir: string) => path.resolve(baseDir, dir));
+      definition = this.loadProtoFiles(files, includeDirs);
+      source = files.map(file => path.basename(file)).join(', ');
+    } else {
+      definition = await GrpcReflection.loadPackageDefinition(address, credentials, service, LOADER_OPTIONS);
+      source = `server reflection at ${address}`;
+    }
+
+    const serviceDefinition = definition[service] as protoLoader.ServiceDefinition | undefined;
+    if (!serviceDefinition || 'format' in serviceDefinition || 'type' in serviceDefinition) {
+      const services = Object.keys(definition).filter(name => {
+        const entry: any = definition[name];
+        return !('format' in entry) && !('type' in entry);
+      });
+      throw new Error(`Service '${service}' not found in ${source}. Available services: ${services.join(', ')}`);
+    }
+
+    const methodDefinition = serviceDefinition[method]
+      || Object.values(serviceDefinition).find(candidate => candidate.originalName === method);
+    if (!methodDefinition) {
+      throw new Error(`Method '${method}' not found in service '${service}'. Available methods: ${Object.keys(serviceDefinition).join(', ')}`);
+    }
+    return methodDefinition;
+  }
+
+  private loadProtoFiles(files: string[], includeDirs: string[]): protoLoader.PackageDefinition {
+    const key = JSON.stringify({ files, includeDirs });
+    let definition = GrpcAction.definitions.get(key);
+    if (!definition) {
+      for (const file of files) {
+        if (!fs.existsSync(file)) {
+          throw new Error(`Proto file not found: ${file}`);
+        }
+      }
+      definition = protoLoader.loadSync(files, { ...LOADER_OPTIONS, includeDirs });
+      GrpcAction.definitions.set(key, definition);
+    }
+    return definition;
+  }
+
+  private getCredentials(step: StepDefinition): grpc.ChannelCredentials {
+    const tlsConfig = Config.get('actions.grpc.tls') || {};
+    const enabled = step.params.tls ?? tlsConfig.enabled;
+    if (!(enabled === true || enabled === 'true')) {
+      return grpc.credentials.createInsecure();
+    }
+    const readFile = (file?: string) => (file ? fs.readFileSync(path.resolve(file)) : null);
+    return grpc.credentials.createSsl(readFile(tlsConfig.ca), readFile(tlsConfig.key), readFile(tlsConfig.cert));
+  }
+
+  private parseMethod(step: StepDefinition): { service: string; method: string } {
+    const method: string = step.params.method;
+    const separator = method.lastIndexOf('/');
+    if (separator !== -1) {
+      return { service: method.slice(0, separator).replace(/^\//, ''), method: method.slice(separator + 1) };
+    }
+    return { service: step.params.service, method };
+  }
+
+  // Binary (-bin) values are returned as base64, and keys with one value as a plain value
+  private toObject(metadata: grpc.Metadata | undefined): Record<string, any> {
+    const result: Record<string, any> = {};
+    for (const [key, values] of Object.entries(metadata?.toJSON() || {})) {
+      const items = values.map(value => (Buffer.isBuffer(value) ? value.toString('base64') : value));
+      result[key] = items.length === 1 ? items[0] : items;
+    }
+    return result;
+  }
+
+  private validateResult(result: GrpcCallResult, validation: any): AssertionFailure[] {
+    const errors: AssertionFailure[] = [];
+
+    if (validation.status !== undefined) {
+      errors.push(...(typeof validation.status === 'number'
+        ? this.assert(result.status.code, validation.status, '$.status.code')
+        : this.assert(result.status.name, validation.status, '$.status.name')));
+    }
+    const keys: (keyof GrpcCallResult)[] = ['message', 'messages', 'metadata', 'trailers'];
+    for (const key of keys) {
+      if (validation[key] !== undefined) {
+        errors.push(...this.assert(result[key], validation[key], `$.${key}`));
+      }
+    }
+    if (validation.jsonPath !== undefined) {
+      errors.push(...this.assertJsonPath(result, validation.jsonPath));
+    }
+
+    return errors;
+  }
+
+  private validateStepDefinition(step: StepDefinition): { success: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    if (!step.params) {
+      errors.push('Parameters are required');
+      return { success: false, errors };
+    }
+
+    if (!step.params.address && !Config.get('actions.grpc.address')) {
+      errors.push('Address is required (address or actions.grpc.address)');
+    }
+
+    if (!step.params.method || typeof step.params.method !== 'string') {
+      errors.push('Method is required');
+    } else if (!step.params.method.includes('/') && !step.params.service) {
+      errors.push('Service is required, or write method as <service>/<method>');
+    }
+
+    if (step.params.request !== undefined && (typeof step.params.request !== 'object' || Array.isArray(step.params.request))) {
+      errors.push('Request must be an object');
+    }
+
+    if (step.params.metadata !== undefined && (typeof step.params.metadata !== 'object' || Array.isArray(step.params.metadata))) {
+      errors.push('Metadata must be an object');
+    }
+
+    return { success: errors.length === 0, errors };
+  }
+}
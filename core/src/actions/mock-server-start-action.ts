@@ -0,0 +1,115 @@
+import { BaseAction, ActionResult, StepDefinition, ActionContext } from './base-action';
+import { MockServer } from '../mock-server';
+
+/**
+ * MockServerStartAction class that extends BaseAction to start an HTTP mock server for downstream APIs.
+ *
+ * Routes are matched in order by `method`, `path` (`:name` segments and a trailing `*` are allowed),
+ * `query`, `headers` and `body`; see MockServer for matching and response templating. The server
+ * runs until MockServerStop or the end of the test case. `port` defaults to a free port.
+ *
+ * example step definition:
+ * ```yaml
+ * - kind: MockServerStart
+ *   id: payments-mock
+ *   name: Stub the payment provider
+ *   params:
+ *     name: payments
+ *     port: 9090
+ *     routes:
+ *     - method: GET
+ *       path: /payments/:id
+ *       response:
+ *         status: 200
+ *         body:
+ *           id: "{request.params.id}"
+ *           status: settled
+ *     - method: POST
+ *       path: /webhook
+ *       body: { event: { $regex: '^payment\.' } }
+ *       response:
+ *         status: 202
+ *         delay: 500
+ * ```
+ *
+ * The base URL is available as `{payments-mock.output.url}`.
+ */
+export class MockServerStartAction extends BaseAction {
+  public async execute(step: StepDefinition, context?: ActionContext): Promise<ActionResult> {
+    const validation = this.validateStepDefinition(step);
+    if (!validation.success) {
+      return {
+        success: false,
+        output: { error: 'Validation failed', details: validation.errors }
+      };
+    }
+
+    const name = step.params.name || 'default';
+    if (!context?.session) {
+      return { success: false, output: { error: 'Mock servers can only be started within a test case' } };
+    }
+    const key = MockServer.sessionKey(name);
+    if (context.session.has(key)) {
+      return { success: false, output: { error: `Mock server '${name}' is already running` } };
+    }
+
+    const server = new MockServer(name, step.params.routes || []);
+    try {
+      await server.start(step.params.port !== undefined ? parseInt(step.params.port) : 0, step.params.host);
+    } catch (error) {
+      return {
+        success: false,
+        output: { error: `Mock server '${name}' could not be started: ${error instanceof Error ? error.message : 'Unknown error'}` }
+      };
+    }
+
+    const session = context.session;
+    session.set(key, server);
+    context.onTestCaseEnd?.(async () => {
+      await server.stop();
+      session.delete(key);
+    });
+
+    return {
+      success: true,
+      output: { name, url: server.url, port: server.port, routes: (step.params.routes || []).length }
+    };
+  }
+
+  private validateStepDefinition(step: StepDefinition): { success: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    if (!step.params) {
+      errors.push('Parameters are required');
+      return { success: false, errors };
+    }
+
+    if (step.params.name !== undefined && typeof step.params.name !== 'string') {
+      errors.push('Name must be a string');
+    }
+
+    if (step.params.port !== undefined && !Number.isInteger(Number(step.params.port))) {
+      errors.push('Port must be an integer');
+    }
+
+    if (step.params.routes !== undefined && !Array.isArray(step.params.routes)) {
+      errors.push('Routes must be an array');
+      return { success: false, errors };
+    }
+
+    (step.params.routes || []).forEach((route: any, index: number) => {
+      if (!route || typeof route !== 'object') {
+        errors.push(`Route at index ${index} must be an object`);
+        return;
+      }
+      if (route.method !== undefined && typeof route.method !== 'string') {
+        errors.push(`Route at index ${index}: method must be a string`);
+      }
+      if (route.response !== undefined && (typeof route.response !== 'object' || Array.isArray(route.response))) {
+        errors.push(`Route at index ${index}: response must be an object`);
+      }
+    });
+
+    return { success: errors.length === 0, errors };
+  }
+}
@@ -0,0 +1,35 @@
+import { BaseAction, ActionResult, StepDefinition, ActionContext } from './base-action';
+import { MockServer } from '../mock-server';
+
+/**
+ * MockServerStopAction class that extends BaseAction to stop a mock server before the test case ends.
+ *
+ * example step definition:
+ * ```yaml
+ * - kind: MockServerStop
+ *   name: Stop the payment provider stub
+ *   params:
+ *     name: payments
+ * ```
+ *
+ * The output lists the requests the server received.
+ */
+export class MockServerStopAction extends BaseAction {
+  public async execute(step: StepDefinition, context?: ActionContext): Promise<ActionResult> {
+    const name = step.params?.name || 'default';
+    try {
+      const server = MockServer.find(context, name);
+      await server.stop();
+      context?.session?.delete(MockServer.sessionKey(name));
+      return {
+        success: true,
+        output: { name, requests: server.requests }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        output: { error: error instanceof Error ? error.message : 'Unknown error' }
+      };
+    }
+  }
+}
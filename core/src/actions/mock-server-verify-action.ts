@@ -0,0 +1,62 @@
+import { BaseAction, ActionResult, StepDefinition, ActionContext } from './base-action';
+import { MockServer } from '../mock-server';
+
+/**
+ * MockServerVerifyAction class that extends BaseAction to check the requests a mock server received.
+ *
+ * `method`, `path`, `query`, `headers` and `body` select requests as route matchers do, and `times`
+ * checks how many were received: a number or a matcher such as `{ $gte: 1 }` (the default).
+ *
+ * example step definition:
+ * ```yaml
+ * - kind: MockServerVerify
+ *   name: The webhook was called once
+ *   params:
+ *     name: payments
+ *     method: POST
+ *     path: /webhook
+ *     body:
+ *       event: payment.settled
+ *       orderId: "{create-order.output.response.body.id}"
+ *     times: 1
+ * ```
+ *
+ * The matching requests are available as `{<step id>.output.requests}`.
+ */
+export class MockServerVerifyAction extends BaseAction {
+  public async execute(step: StepDefinition, context?: ActionContext): Promise<ActionResult> {
+    const name = step.params?.name || 'default';
+    let server: MockServer;
+    try {
+      server = MockServer.find(context, name);
+    } catch (error) {
+      return {
+        success: false,
+        output: { error: error instanceof Error ? error.message : 'Unknown error' }
+      };
+    }
+
+    const { method, path, query, headers, body } = step.params || {};
+    const requests = server.findRequests({ method, path, query, headers, body });
+    const times = step.params?.times !== undefined ? step.params.times : { $gte: 1 };
+    const failures = this.assert(requests.length, times, '$.count');
+    const description = `${method ? method.toUpperCase() : 'Any method'} ${typeof path === 'string' ? path : 'any path'}`;
+
+    if (failures.length > 0) {
+      return {
+        success: false,
+        output: {
+          error: `Expected ${description} to be called ${JSON.stringify(times)} time(s), got ${requests.length}`,
+          validationErrors: failures,
+          requests,
+          received: server.requests.map(request => `${request.method} ${request.path}`)
+        }
+      };
+    }
+
+    return {
+      success: true,
+      output: { count: requests.length, requests }
+    };
+  }
+}
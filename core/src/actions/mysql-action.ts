@@ -0,0 +1,62 @@
+import { StepDefinition, ActionContext } from './base-action';
+import { SqlAction, SqlClient } from './sql-action';
+import { MySQLPools } from '../mysql-pools';
+
+/**
+ * MySQLAction class that extends SqlAction to perform MySQL database operations.
+ *
+ * Steps take the same `query`, `queries`, `values`, `connection` and `responseValidation` params as
+ * PostgreSQLAction, with `?` placeholders. Statements without a result set return no rows; their
+ * `rowCount` is the number of affected rows and `insertId` the generated AUTO_INCREMENT id.
+ *
+ * example step definitions:
+ * ```yaml
+ * - kind: MySQL
+ *   name: Insert a customer
+ *   params:
+ *     query: INSERT INTO customers (name, email) VALUES (?, ?)
+ *     values: ['Alice', 'alice@example.com']
+ *     responseValidation:
+ *       rowsAffected: 1
+ *
+ * - kind: MySQL
+ *   name: Read the customer back
+ *   params:
+ *     connection: billing
+ *     query: SELECT name FROM customers WHERE id = ?
+ *     values: ['{insert-customer.output.result.insertId}']
+ *     responseValidation:
+ *     - name: Alice
+ * ```
+ *
+ * Connections are pooled for the whole run, see MySQLPools.
+ */
+export class MySQLAction extends SqlAction {
+  protected readonly databaseName = 'MySQL';
+
+  protected async connect(step: StepDefinition, context?: ActionContext): Promise<SqlClient> {
+    const connection = await MySQLPools.getPool(step.params.connection).getConnection();
+    return {
+      query: async (sql, values) => {
+        const [result] = await connection.query(sql, values || []);
+        const command = sql.trim().split(/\s+/)[0].toUpperCase();
+        if (Array.isArray(result)) {
+          return { rows: result as any[], rowCount: result.length, command };
+        }
+        const header = result as { affectedRows: number; insertId: number };
+        return { rows: [], rowCount: header.affectedRows, command, insertId: header.insertId || undefined };
+      },
+      cancel: () => MySQLPools.cancelQuery(step.params.connection, connection.threadId),
+      // A discarded connection is closed, since the server may still be ending its killed query
+      release: discard => (discard ? connection.destroy() : connection.release())
+    };
+  }
+
+  protected quoteIdentifier(name: string): string {
+    return name.split('.').map(part => `\`${part.replace(/`/g, '``')}\``).join('.');
+  }
+
+  public async dispose(): Promise<void> {
+    await MySQLPools.closeAll();
+  }
+}
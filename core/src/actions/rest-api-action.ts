@@ -1,4 +1,14 @@
-import { BaseAction, ActionResult, StepDefinition } from './base-action';
+import { BaseAction, ActionResult, StepDefinition, ActionContext } from './base-action';
+import { AssertionFailure } from '../assertion';
+import { SchemaValidator } from '../schema-validator';
+import { Config } from '../config';
+import { AuthProfiles } from '../auth-profiles';
+import { AuthRequest } from '../auth-providers/base-auth-provider';
+import { CookieJar } from 'tough-cookie';
+import { fetch, Agent, ProxyAgent, Dispatcher, FormData, RequestInit, Response, BodyInit } from 'undici';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
 
 
 
@@ -27,12 +37,54 @@ import { BaseAction, ActionResult, StepDefinition } from './base-action';
  *     statusCode: 200
  *     body:
  *       key1: 'value1'
- *       key2: 'value2'
+ *       key2: { $regex: '^value' }
  *     headers:
- *       Content-Type: application/json
+ *       Content-Type: { $contains: application/json }
+ *     jsonPath:
+ *       "$.body.items[?(@.active)].id": { $contains: [3] }
+ *     schema: ./schemas/data.json
+ *     openapi:
+ *       spec: ./openapi.yaml
+ *       operationId: getData
+ * ```
+ *
+ * `schema` accepts an inline JSON Schema or a path to a JSON/YAML schema file. `openapi` validates the
+ * body against the response schema documented for the operation and the received status code.
+ * Relative paths are resolved against the directory of the test case file. `jsonPath` maps JSONPath
+ * queries over the whole response (`$.status`, `$.headers`, `$.body`) to expected values or matchers.
+ *
+ * responseValidation values may use the matchers described in Assertion.
+ *
+ * `bodyType` selects how `body` is sent: `json` (default), `form` (URL-encoded), `multipart`,
+ * `binary` or `text`. Multipart fields given as `{ file, filename, contentType }` upload a file, and a
+ * binary body is a file path, `{ file }` or `{ base64 }`:
+ * ```yaml
+ *   parameters:
+ *     url: https://api.example.com/upload
+ *     method: POST
+ *     bodyType: multipart
+ *     body:
+ *       description: Monthly report
+ *       attachment:
+ *         file: ./fixtures/report.pdf
+ *         contentType: application/pdf
+ *     timeout: 5000
+ *     followRedirects: false
+ * ```
+ *
+ * Responses are read as JSON or text based on their Content-Type (or `responseType`: `json`, `text`,
+ * `binary`). Binary responses are saved under `actions.restapi.artifactsDir` (file name from `saveAs`)
+ * and the body becomes `{ file, size, sha256, md5 }`. TLS client certificates, custom CAs and an HTTP
+ * proxy are configured with `actions.restapi.tls` and `actions.restapi.proxy`; `actions.restapi.timeout`
+ * is the default request timeout.
+ *
+ * `auth` selects a named profile from `actions.restapi.auth` (see AuthProfiles). With `cookieJar: true`
+ * (or `actions.restapi.cookieJar: true`) cookies set by responses are sent on later requests of the same test case.
  */
 export class RestApiCallAction extends BaseAction {
-  public async execute(step: StepDefinition): Promise<ActionResult> {
+  private static dispatcher: Dispatcher | undefined | null = null;
+
+  public async execute(step: StepDefinition, context?: ActionContext): Promise<ActionResult> {
     try {
       // Validate step definition
       const validation = this.validateStepDefinition(step);
@@ -43,7 +95,8 @@ export class RestApiCallAction extends BaseAction {
         };
       }
 
-      const { url, method = 'GET', headers = {}, queryParams = {}, body } = step.params;
+      const { url, method = 'GET', headers = {}, queryParams = {}, followRedirects = true } = step.params;
+      const baseDir = context?.baseDir || process.cwd();
 
       // Build URL with query parameters
       const urlObj = new URL(url);
@@ -51,30 +104,87 @@ export class RestApiCallAction extends BaseAction {
         urlObj.searchParams.append(key, String(value));
       });
 
-      // Prepare fetch options
-      const fetchOptions: RequestInit = {
-        method: method.toUpperCase(),
-        headers: {
-          'Content-Type': 'application/json',
-          ...headers
+      // Prepare the request
+      const requestBody = this.buildRequestBody(step, baseDir);
+      const requestMethod = method.toUpperCase();
+      const dispatcher = RestApiCallAction.getDispatcher();
+      const auth = step.params.auth ? await AuthProfiles.get(step.params.auth) : undefined;
+      const cookieJar = this.getCookieJar(step, context);
+
+      // Abort on the step timeout (from the engine) or on the HTTP timeout (from params or config)
+      const controller = new AbortController();
+      const abort = () => controller.abort();
+      const timeout = step.params.timeout ?? Config.get('actions.restapi.timeout');
+      let timer: NodeJS.Timeout | undefined;
+
+      const send = async (): Promise<Response> => {
+        const request: AuthRequest = {
+          method: requestMethod,
+          url: new URL(urlObj.toString()),
+          headers: {
+            ...(requestBody.contentType ? { 'Content-Type': requestBody.contentType } : {}),
+            ...headers
+          },
+          body: requestBody.body,
+          dispatcher
+        };
+
+        // Credentials are applied per request, since signatures and tokens may change between retries
+        if (auth) {
+          await auth.apply(request);
+        }
+        if (cookieJar) {
+          const cookies = await cookieJar.getCookieString(request.url.toString());
+          if (cookies) {
+            const cookieHeader = Object.keys(request.headers).find(name => name.toLowerCase() === 'cookie');
+            request.headers[cookieHeader || 'Cookie'] = cookieHeader ? `${request.headers[cookieHeader]}; ${cookies}` : cookies;
+          }
         }
-      };
 
-      // Add body for non-GET requests
-      if (body && method.toUpperCase() !== 'GET') {
-        fetchOptions.body = typeof body === 'string' ? body : JSON.stringify(body);
-      }
+        const fetchOptions: RequestInit = {
+          method: requestMethod,
+          signal: controller.signal,
+          redirect: followRedirects ? 'follow' : 'manual',
+          dispatcher,
+          headers: request.headers
+        };
+
+        // Add body for non-GET requests
+        if (requestBody.body !== undefined && requestMethod !== 'GET') {
+          fetchOptions.body = requestBody.body;
+        }
+
+        const result = await fetch(request.url.toString(), fetchOptions);
+        if (cookieJar) {
+          for (const cookie of result.headers.getSetCookie()) {
+            await cookieJar.setCookie(cookie, result.url || request.url.toString(), { ignoreError: true });
+          }
+        }
+        return result;
+      };
 
       // Make the API call
-      const response = await fetch(urlObj.toString(), fetchOptions);
-      
-      // Parse response
+      let response: Response;
       let responseBody: any;
-      const contentType = response.headers.get('content-type');
-      if (contentType && contentType.includes('application/json')) {
-        responseBody = await response.json();
-      } else {
-        responseBody = await response.text();
+      try {
+        // Registered right before sending, so the finally below always clears them
+        context?.signal?.addEventListener('abort', abort);
+        timer = timeout ? setTimeout(abort, Number(timeout)) : undefined;
+        response = await send();
+        // A rejected token may have been revoked before it expired, so the request is repeated once with new credentials
+        if (response.status === 401 && auth?.invalidate()) {
+          await response.arrayBuffer();
+          response = await send();
+        }
+        responseBody = await this.readResponseBody(response, step);
+      } catch (error) {
+        if (controller.signal.aborted && !context?.signal?.aborted) {
+          throw new Error(`Request timed out after ${timeout}ms`);
+        }
+        throw error;
+      } finally {
+        clearTimeout(timer);
+        context?.signal?.removeEventListener('abort', abort);
       }
 
       // Convert headers to plain object
@@ -92,7 +202,7 @@ export class RestApiCallAction extends BaseAction {
 
       // Validate response if responseValidation is provided
       if (step.params.responseValidation) {
-        const validationResult = this.validateResponse(result, step.params.responseValidation);
+        const validationResult = this.validateResponse(result, step.params.responseValidation, baseDir);
         if (!validationResult.success) {
           return {
             success: false,
@@ -120,6 +230,126 @@ export class RestApiCallAction extends BaseAction {
     }
   }
 
+  // The cookie jar lives in the test case session, so cookies are shared by the steps of one test case only
+  private getCookieJar(step: StepDefinition, context?: ActionContext): CookieJar | undefined {
+    const enabled = step.params.cookieJar ?? Config.get('actions.restapi.cookieJar');
+    if (!context?.session || !(enabled === true || enabled === 'true')) {
+      return undefined;
+    }
+
+    let cookieJar = context.session.get('restapi.cookieJar');
+    if (!cookieJar) {
+      cookieJar = new CookieJar();
+      context.session.set('restapi.cookieJar', cookieJar);
+    }
+    return cookieJar;
+  }
+
+  private buildRequestBody(step: StepDefinition, baseDir: string): { body?: BodyInit; contentType?: string } {
+    const { body, bodyType = 'json' } = step.params;
+    if (body === undefined || body === null) {
+      return { contentType: bodyType === 'json' ? 'application/json' : undefined };
+    }
+
+    switch (bodyType) {
+      case 'form': {
+        const form = new URLSearchParams();
+        Object.entries(body).forEach(([key, value]) => {
+          (Array.isArray(value) ? value : [value]).forEach(item => form.append(key, String(item)));
+        });
+        return { body: form.toString(), contentType: 'application/x-www-form-urlencoded' };
+      }
+      case 'multipart': {
+        // The boundary is generated by fetch, so no Content-Type is set here
+        const form = new FormData();
+        Object.entries(body).forEach(([key, value]: [string, any]) => {
+          if (value && typeof value === 'object' && value.file) {
+            const filePath = path.resolve(baseDir, value.file);
+            const blob = new Blob([fs.readFileSync(filePath)], { type: value.contentType || 'application/octet-stream' });
+            form.append(key, blob, value.filename || path.basename(filePath));
+          } else {
+            form.append(key, typeof value === 'object' ? JSON.stringify(value) : String(value));
+          }
+        });
+        return { body: form };
+      }
+      case 'binary': {
+        const data = typeof body === 'string'
+          ? fs.readFileSync(path.resolve(baseDir, body))
+          : body.base64 !== undefined
+            ? Buffer.from(body.base64, 'base64')
+            : fs.readFileSync(path.resolve(baseDir, body.file));
+        return { body: data, contentType: 'application/octet-stream' };
+      }
+      case 'text':
+        return { body: String(body), contentType: 'text/plain' };
+      default:
+        return { body: typeof body === 'string' ? body : JSON.stringify(body), contentType: 'application/json' };
+    }
+  }
+
+  private async readResponseBody(response: Response, step: StepDefinition): Promise<any> {
+    const contentType = response.headers.get('content-type') || '';
+    const responseType = step.params.responseType
+      || (/json/i.test(contentType) ? 'json'
+        : !contentType || /^text\/|xml|javascript|x-www-form-urlencoded/i.test(contentType) ? 'text'
+          : 'binary');
+
+    if (responseType === 'json') {
+      // Redirects and 204 responses may declare JSON without sending a body
+      const text = await response.text();
+      return text ? JSON.parse(text) : text;
+    }
+    if (responseType === 'text') {
+      return await response.text();
+    }
+
+    // Binary responses are saved as artifacts; the body describes the file so it can be asserted on
+    const data = Buffer.from(await response.arrayBuffer());
+    const artifactsDir = path.resolve(Config.get('actions.restapi.artifactsDir') || './artifacts');
+    fs.mkdirSync(artifactsDir, { recursive: true });
+    const fileName = step.params.saveAs || `${step.id.replace(/[^\w.-]/g, '_')}-${Date.now()}`;
+    const filePath = path.join(artifactsDir, fileName);
+    fs.writeFileSync(filePath, data);
+
+    return {
+      file: filePath,
+      size: data.length,
+      sha256: crypto.createHash('sha256').update(data).digest('hex'),
+      md5: crypto.createHash('md5').update(data).digest('hex')
+    };
+  }
+
+  /**
+   * Returns an undici dispatcher for the TLS and proxy settings in config, shared by all steps.
+   */
+  public static getDispatcher(): Dispatcher | undefined {
+    if (RestApiCallAction.dispatcher !== null) {
+      return RestApiCallAction.dispatcher;
+    }
+
+    const tlsConfig = Config.get('actions.restapi.tls') || {};
+    const readFile = (file?: string) => (file ? fs.readFileSync(path.resolve(file)) : undefined);
+    const tls = {
+      ca: readFile(tlsConfig.ca),
+      cert: readFile(tlsConfig.cert),
+      key: readFile(tlsConfig.key),
+      passphrase: tlsConfig.passphrase,
+      rejectUnauthorized: tlsConfig.rejectUnauthorized !== undefined ? String(tlsConfig.rejectUnauthorized) !== 'false' : undefined
+    };
+    const hasTls = Object.values(tls).some(value => value !== undefined);
+    const proxy = Config.get('actions.restapi.proxy');
+
+    if (proxy) {
+      RestApiCallAction.dispatcher = new ProxyAgent({ uri: proxy, requestTls: hasTls ? tls : undefined });
+    } else if (hasTls) {
+      RestApiCallAction.dispatcher = new Agent({ connect: tls });
+    } else {
+      RestApiCallAction.dispatcher = undefined;
+    }
+    return RestApiCallAction.dispatcher;
+  }
+
   private validateStepDefinition(step: StepDefinition): { success: boolean; errors: string[] } {
     const errors: string[] = [];
 
@@ -132,6 +362,11 @@ export class RestApiCallAction extends BaseAction {
       errors.push('URL is required');
     }
 
+    const openapi = step.params.responseValidation?.openapi;
+    if (openapi && (typeof openapi.spec !== 'string' || typeof openapi.operationId !== 'string')) {
+      errors.push('responseValidation.openapi requires spec and operationId');
+    }
+
     if (step.params.method && typeof step.params.method !== 'string') {
       errors.push('Method must be a string');
     }
@@ -141,54 +376,57 @@ export class RestApiCallAction extends BaseAction {
       errors.push(`Method must be one of: ${allowedMethods.join(', ')}`);
     }
 
+    const bodyTypes = ['json', 'form', 'multipart', 'binary', 'text'];
+    if (step.params.bodyType && !bodyTypes.includes(step.params.bodyType)) {
+      errors.push(`bodyType must be one of: ${bodyTypes.join(', ')}`);
+    }
+
+    if (step.params.auth !== undefined && typeof step.params.auth !== 'string') {
+      errors.push('auth must be the name of a profile in actions.restapi.auth');
+    }
+
     return { success: errors.length === 0, errors };
   }
 
-  private validateResponse(response: any, validation: any): { success: boolean; errors: string[] } {
-    const errors: string[] = [];
+  private validateResponse(response: any, validation: any, baseDir: string): { success: boolean; errors: AssertionFailure[] } {
+    const errors: AssertionFailure[] = [];
 
     // Validate status code
-    if (validation.statusCode && response.status !== validation.statusCode) {
-      errors.push(`Expected status code ${validation.statusCode}, got ${response.status}`);
+    if (validation.statusCode !== undefined) {
+      errors.push(...this.assert(response.status, validation.statusCode, '$.status'));
     }
 
-    // Validate headers
+    // Validate headers (header names are case-insensitive)
     if (validation.headers) {
       Object.entries(validation.headers).forEach(([key, expectedValue]) => {
-        const actualValue = response.headers[key.toLowerCase()];
-        if (expectedValue !== actualValue) {
-          errors.push(`Expected header ${key}: ${expectedValue}, got: ${actualValue}`);
-        }
+        const name = key.toLowerCase();
+        errors.push(...this.assert(response.headers[name], expectedValue, `$.headers['${name}']`));
       });
     }
 
     // Validate body
-    if (validation.body) {
-      const bodyErrors = this.validateObject(response.body, validation.body, 'body');
-      errors.push(...bodyErrors);
+    if (validation.body !== undefined) {
+      errors.push(...this.assert(response.body, validation.body, '$.body'));
     }
 
-    return { success: errors.length === 0, errors };
-  }
-
-  private validateObject(actual: any, expected: any, path: string): string[] {
-    const errors: string[] = [];
+    // Validate values selected by JSONPath queries against the whole response
+    if (validation.jsonPath) {
+      errors.push(...this.assertJsonPath(response, validation.jsonPath));
+    }
 
-    if (typeof expected === 'object' && expected !== null && !Array.isArray(expected)) {
-      Object.entries(expected).forEach(([key, expectedValue]) => {
-        const actualValue = actual?.[key];
-        const currentPath = `${path}.${key}`;
+    // Validate body against an inline JSON Schema or a schema file
+    if (validation.schema !== undefined) {
+      errors.push(...SchemaValidator.validate(response.body, validation.schema, baseDir, '$.body'));
+    }
 
-        if (typeof expectedValue === 'object' && expectedValue !== null && !Array.isArray(expectedValue)) {
-          errors.push(...this.validateObject(actualValue, expectedValue, currentPath));
-        } else if (actualValue !== expectedValue) {
-          errors.push(`Expected ${currentPath}: ${expectedValue}, got: ${actualValue}`);
-        }
-      });
-    } else if (actual !== expected) {
-      errors.push(`Expected ${path}: ${expected}, got: ${actual}`);
+    // Validate body against the documented response of an OpenAPI operation
+    if (validation.openapi) {
+      const { spec, operationId } = validation.openapi;
+      errors.push(...SchemaValidator.validateOpenApiResponse(
+        response.body, spec, operationId, response.status, response.headers['content-type'], baseDir, '$.body'
+      ));
     }
 
-    return errors;
+    return { success: errors.length === 0, errors };
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,337 @@
+import { BaseAction, ActionResult, StepDefinition, ActionContext } from './base-action';
+import { AssertionFailure } from '../assertion';
+
+export interface SqlQueryResult {
+  rows: any[];
+  rowCount: number;
+  command: string;
+  // Id generated by an INSERT, for databases without RETURNING such as MySQL
+  insertId?: number;
+}
+
+export interface SqlClient {
+  query(sql: string, values?: any[]): Promise<SqlQueryResult>;
+  // Stops the query that is running on the connection, e.g. when the step times out
+  cancel?(): Promise<void>;
+  // With discard the connection is closed instead of returned to its pool, e.g. after a cancelled query
+  release(discard?: boolean): void | Promise<void>;
+}
+
+interface SharedTransaction {
+  client: SqlClient;
+  // Steps of one test case may run in parallel, but the shared connection runs one step at a time
+  queue: Promise<void>;
+}
+
+/**
+ * SqlAction class that implements the steps shared by the SQL database actions.
+ *
+ * A step runs either one `query` with `values`, or a list of `queries` in a transaction, and
+ * optionally validates the result of the last query with `responseValidation`:
+ * - a list of rows, compared with `rows`
+ * - `rowsAffected`, the total number of affected rows
+ * - `jsonPath`, JSONPath queries over the result
+ * - any other property of the result, e.g. `rows` or `rowCount`
+ *
+ * Each query result has `rows`, `rowCount` and `command`. `connection` selects a named connection
+ * from `actions.<database>.connections`.
+ *
+ * In a test case with `isolation: transaction` all steps share one connection per named connection
+ * inside a transaction that is rolled back when the test case ends. Each step runs in a savepoint,
+ * and `queries` are applied atomically through that savepoint instead of their own transaction.
+ * A step with `isolation: none` runs on a separate connection and commits, e.g. when the system under
+ * test must see the data.
+ *
+ * When the step is aborted, e.g. by its timeout, the running query is cancelled through the client's
+ * cancel() and the following queries of the step are not run, so the step does not keep holding its
+ * connection or the test case transaction.
+ *
+ * Subclasses provide the connections of their database through connect().
+ */
+export abstract class SqlAction extends BaseAction {
+  // Name used in messages and, in lower case, as the config key under `actions`
+  protected abstract readonly databaseName: string;
+
+  /**
+   * Opens or borrows a connection for the step; the client is released after the step.
+   */
+  protected abstract connect(step: StepDefinition, context?: ActionContext): Promise<SqlClient>;
+
+  public async execute(step: StepDefinition, context?: ActionContext): Promise<ActionResult> {
+    try {
+      // Validate step definition
+      const validation = this.validateStepDefinition(step);
+      if (!validation.success) {
+        return {
+          success: false,
+          output: { error: 'Validation failed', details: validation.errors }
+        };
+      }
+
+      return await this.withClient(step, context, !!step.params.queries, async client => {
+        let result: any;
+        let totalRowsAffected = 0;
+        let lastQueryResult: any;
+
+        // Handle single query
+        if (step.params.query) {
+          result = await client.query(step.params.query, step.params.values || []);
+          lastQueryResult = result;
+          totalRowsAffected = result.rowCount;
+        }
+        // Handle multiple queries (transaction)
+        else if (step.params.queries && Array.isArray(step.params.queries)) {
+          const results: any[] = [];
+          
+          for (const queryObj of step.params.queries) {
+            const queryResult = await client.query(queryObj.query, queryObj.values || []);
+            results.push(queryResult);
+            lastQueryResult = queryResult; // Keep track of last query result
+            totalRowsAffected += queryResult.rowCount;
+          }
+          
+          result = {
+            queries: results,
+            totalRowsAffected,
+            lastQuery: lastQueryResult
+          };
+        }
+        else {
+          throw new Error('Either query or queries parameter is required');
+        }
+
+        // Validate response if responseValidation is provided
+        // For multiple queries, validate against the last query result
+        if (step.params.responseValidation) {
+          const validationTarget = step.params.queries ? lastQueryResult : result;
+          const validationResult = this.validateResponse(validationTarget, step.params.responseValidation, totalRowsAffected);
+          if (!validationResult.success) {
+            return {
+              success: false,
+              output: {
+                error: 'Response validation failed',
+                validationErrors: validationResult.errors,
+                result
+              }
+            };
+          }
+        }
+
+        return {
+          success: true,
+          output: { result }
+        };
+      });
+
+    } catch (error) {
+      return {
+        success: false,
+        output: {
+          error: error instanceof Error ? error.message : 'Unknown error occurred',
+          stack: error instanceof Error ? error.stack : undefined
+        }
+      };
+    }
+  }
+
+  /**
+   * Runs work on a client of the step's connection. Inside a test case transaction the work runs in a
+   * savepoint of the shared connection; otherwise a pooled connection is used and `atomic` work gets its
+   * own transaction. Changes are rolled back when the work throws.
+   */
+  protected async withClient<T>(step: StepDefinition, context: ActionContext | undefined, atomic: boolean, work: (client: SqlClient) => Promise<T>): Promise<T> {
+    // With `isolation: transaction` the steps share one connection whose transaction is rolled back when the test case ends
+    const transaction = await this.getSharedTransaction(step, context);
+    const client = transaction ? transaction.client : await this.connect(step, context);
+    const unlock = transaction ? await this.lock(transaction) : undefined;
+
+    // The cancel request is awaited before the connection is used again, so it cannot hit a later query
+    const signal = context?.signal;
+    let cancelling: Promise<void> | undefined;
+    const cancel = () => {
+      cancelling = client.cancel?.().catch(error => {
+        console.log(`  Cancelling the ${this.databaseName} query failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      });
+    };
+    signal?.addEventListener('abort', cancel);
+    // Once the step is aborted, e.g. while it waited for the connection, its remaining queries are not run
+    const stepClient: SqlClient = {
+      ...client,
+      query: (sql, values) => signal?.aborted ? Promise.reject(new Error('Step was aborted')) : client.query(sql, values)
+    };
+
+    // Inside the shared transaction each step runs in a savepoint, so a failing query does not abort later steps
+    const begin = transaction ? 'SAVEPOINT test_step' : atomic ? 'BEGIN' : undefined;
+    try {
+      if (begin) {
+        await stepClient.query(begin);
+      }
+      const result = await work(stepClient);
+      if (begin) {
+        await stepClient.query(transaction ? 'RELEASE SAVEPOINT test_step' : 'COMMIT');
+      }
+      return result;
+    } catch (error) {
+      signal?.removeEventListener('abort', cancel);
+      await cancelling;
+      // Rollback transaction if it was started
+      if (begin) {
+        try {
+          await client.query(transaction ? 'ROLLBACK TO SAVEPOINT test_step' : 'ROLLBACK');
+        } catch (rollbackError) {
+          // Ignore rollback errors
+        }
+      }
+      throw error;
+    } finally {
+      signal?.removeEventListener('abort', cancel);
+      await cancelling;
+      if (unlock) {
+        unlock();
+      } else {
+        await client.release(cancelling !== undefined);
+      }
+    }
+  }
+
+  /**
+   * Quotes a table or column name such as `test_schema.users` for use in SQL.
+   */
+  protected quoteIdentifier(name: string): string {
+    return name.split('.').map(part => `"${part.replace(/"/g, '""')}"`).join('.');
+  }
+
+  // Steps with the same key share the test case transaction
+  protected connectionKey(step: StepDefinition, context?: ActionContext): string {
+    return step.params.connection || 'default';
+  }
+
+  private async getSharedTransaction(step: StepDefinition, context?: ActionContext): Promise<SharedTransaction | undefined> {
+    // isolation: none opts a step out, e.g. when the system under test must read its data from another connection
+    if (context?.isolation !== 'transaction' || step.params.isolation === 'none' || !context.session || !context.onTestCaseEnd) {
+      return undefined;
+    }
+
+    const key = `${this.databaseName.toLowerCase()}.transaction.${this.connectionKey(step, context)}`;
+    if (!context.session.has(key)) {
+      const session = context.session;
+      const pending: Promise<SharedTransaction> = (async () => {
+        const client = await this.connect(step, context);
+        try {
+          await client.query('BEGIN');
+        } catch (error) {
+          await client.release();
+          throw error;
+        }
+        return { client, queue: Promise.resolve() };
+      })();
+      // Parallel steps wait for the same connection; a failed connect is retried by the next step
+      session.set(key, pending.catch(error => {
+        session.delete(key);
+        throw error;
+      }));
+
+      context.onTestCaseEnd(async () => {
+        const transaction = await pending.catch(() => undefined);
+        if (!transaction) return;
+        await transaction.queue;
+        try {
+          await transaction.client.query('ROLLBACK');
+        } finally {
+          await transaction.client.release();
+        }
+      });
+    }
+    return await context.session.get(key);
+  }
+
+  private async lock(transaction: SharedTransaction): Promise<() => void> {
+    const previous = transaction.queue;
+    let unlock: () => void = () => {};
+    transaction.queue = new Promise(resolve => {
+      unlock = resolve;
+    });
+    await previous;
+    return unlock;
+  }
+
+  protected validateStepDefinition(step: StepDefinition): { success: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    if (!step.params) {
+      errors.push('Parameters are required');
+      return { success: false, errors };
+    }
+
+    // Check if either query or queries is provided
+    if (!step.params.query && !step.params.queries) {
+      errors.push('Either query or queries parameter is required');
+    }
+
+    // Validate single query
+    if (step.params.query && typeof step.params.query !== 'string') {
+      errors.push('Query must be a string');
+    }
+
+    // Validate multiple queries
+    if (step.params.queries) {
+      if (!Array.isArray(step.params.queries)) {
+        errors.push('Queries must be an array');
+      } else {
+        step.params.queries.forEach((queryObj: any, index: number) => {
+          if (!queryObj.query || typeof queryObj.query !== 'string') {
+            errors.push(`Query at index ${index} must have a valid query string`);
+          }
+        });
+      }
+    }
+
+    if (step.params.isolation !== undefined && step.params.isolation !== 'none') {
+      errors.push("Isolation must be 'none' to run the step outside the test case transaction");
+    }
+
+    if (step.params.connection !== undefined && typeof step.params.connection !== 'string') {
+      errors.push(`Connection must be the name of a connection in actions.${this.databaseName.toLowerCase()}.connections`);
+    }
+
+    // Validate values if provided
+    if (step.params.values && !Array.isArray(step.params.values)) {
+      errors.push('Values must be an array');
+    }
+
+    return { success: errors.length === 0, errors };
+  }
+
+  private validateResponse(result: any, validation: any, totalRowsAffected?: number): { success: boolean; errors: AssertionFailure[] } {
+    const errors: AssertionFailure[] = [];
+
+    // Validate result rows for SELECT queries
+    if (Array.isArray(validation)) {
+      errors.push(...this.assert(result.rows, validation, '$.rows'));
+      return { success: errors.length === 0, errors };
+    }
+
+    const { rowsAffected, jsonPath, ...expected } = validation;
+
+    // Validate rowsAffected
+    if (rowsAffected !== undefined) {
+      const actualRowsAffected = totalRowsAffected !== undefined
+        ? totalRowsAffected
+        : result.rowCount;
+      errors.push(...this.assert(actualRowsAffected, rowsAffected, '$.rowsAffected'));
+    }
+
+    // Validate values selected by JSONPath queries, e.g. $.rows[?(@.name == 'Bob')].age
+    if (jsonPath) {
+      errors.push(...this.assertJsonPath(result, jsonPath));
+    }
+
+    // Validate object properties, e.g. rows or rowCount
+    if (Object.keys(expected).length > 0) {
+      errors.push(...this.assert(result, expected, '$'));
+    }
+
+    return { success: errors.length === 0, errors };
+  }
+}
+
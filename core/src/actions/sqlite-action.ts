@@ -0,0 +1,119 @@
+import { ActionResult, StepDefinition, ActionContext } from './base-action';
+import { SqlAction, SqlClient, SqlQueryResult } from './sql-action';
+import { SQLiteDatabases } from '../sqlite-databases';
+import { getConnectionSettings } from '../sql-connection-settings';
+import initSqlJs from 'sql.js';
+import * as path from 'path';
+
+/**
+ * SQLiteAction class that extends SqlAction to run queries against a local SQLite database file.
+ *
+ * Steps take the same `query`, `queries`, `values` and `responseValidation` params as PostgreSQLAction,
+ * with `?` placeholders. The database is the `file` param (relative to the test case file), or the
+ * `file` of the connection named by `connection` (relative to the working directory). A query without
+ * `values` may contain several statements, e.g. a schema script; the result is that of the last one.
+ *
+ * example step definitions:
+ * ```yaml
+ * - kind: SQLite
+ *   name: Create the schema
+ *   params:
+ *     file: ../tmp/app.sqlite
+ *     query: |
+ *       CREATE TABLE IF NOT EXISTS notes (id INTEGER PRIMARY KEY, title TEXT NOT NULL);
+ *       DELETE FROM notes;
+ *
+ * - kind: SQLite
+ *   name: Insert a note
+ *   params:
+ *     file: ../tmp/app.sqlite
+ *     query: INSERT INTO notes (title) VALUES (?) RETURNING id
+ *     values: ['First note']
+ *     responseValidation:
+ *     - id: 1
+ * ```
+ *
+ * example config:
+ * ```yaml
+ * actions:
+ *   sqlite:
+ *     file: ./tmp/app.sqlite
+ *     connections:
+ *       scratch:
+ *         file: ":memory:"
+ * ```
+ *
+ * A database file has a single connection, so within a test case with `isolation: transaction`
+ * steps cannot opt out with `isolation: none`. See SQLiteDatabases for how files are loaded and saved.
+ */
+export class SQLiteAction extends SqlAction {
+  protected readonly databaseName = 'SQLite';
+
+  public async execute(step: StepDefinition, context?: ActionContext): Promise<ActionResult> {
+    if (context?.isolation === 'transaction' && step.params?.isolation === 'none') {
+      return {
+        success: false,
+        output: { error: 'SQLite steps cannot use isolation: none, because a database file has a single connection' }
+      };
+    }
+    return super.execute(step, context);
+  }
+
+  protected async connect(step: StepDefinition, context?: ActionContext): Promise<SqlClient> {
+    const handle = await SQLiteDatabases.acquire(this.connectionKey(step, context));
+    return {
+      query: async (sql, values) => this.runQuery(handle.database, sql, values || []),
+      release: () => handle.release()
+    };
+  }
+
+  protected connectionKey(step: StepDefinition, context?: ActionContext): string {
+    if (step.params.file) {
+      return step.params.file === ':memory:' ? ':memory:' : path.resolve(context?.baseDir || process.cwd(), step.params.file);
+    }
+    const { file } = getConnectionSettings('sqlite', 'SQLite', step.params.connection || 'default', ['file']);
+    if (!file) {
+      throw new Error('SQLite database file is not configured; set the file param or actions.sqlite.file');
+    }
+    return file === ':memory:' ? ':memory:' : path.resolve(file);
+  }
+
+  private runQuery(database: initSqlJs.Database, sql: string, values: any[]): SqlQueryResult {
+    // Without values every statement of a script is run; with values the query must be a single statement.
+    // iterateStatements prepares the next statement only after the previous one ran, so schema changes are visible
+    const statements: Iterable<initSqlJs.Statement> = values.length > 0 ? [database.prepare(sql)] : database.iterateStatements(sql);
+    let result: SqlQueryResult = { rows: [], rowCount: 0, command: '' };
+    for (const statement of statements) {
+      try {
+        if (values.length > 0) {
+          statement.bind(values.map(value => this.toSqliteValue(value)));
+        }
+        const rows: any[] = [];
+        while (statement.step()) {
+          rows.push(statement.getAsObject());
+        }
+        const returnsRows = statement.getColumnNames().length > 0;
+        result = {
+          rows,
+          rowCount: returnsRows ? rows.length : database.getRowsModified(),
+          command: (statement.getSQL().trim().split(/\s+/)[0] || '').toUpperCase()
+        };
+      } finally {
+        statement.free();
+      }
+    }
+    return result;
+  }
+
+  private toSqliteValue(value: any): initSqlJs.SqlValue {
+    if (value === undefined || value === null) return null;
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    if (value instanceof Date) return value.toISOString();
+    if (value instanceof Uint8Array || typeof value === 'number' || typeof value === 'string') return value;
+    return JSON.stringify(value);
+  }
+
+  public async dispose(): Promise<void> {
+    await SQLiteDatabases.closeAll();
+  }
+}
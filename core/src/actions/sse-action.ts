@@ -0,0 +1,135 @@
+import { StepDefinition, ActionContext } from './base-action';
+import { StreamAction, StreamHandlers, StreamConnection } from './stream-action';
+import { RestApiCallAction } from './rest-api-action';
+import { fetch, Response } from 'undici';
+
+/**
+ * SseAction class that extends StreamAction to read a Server-Sent Events stream.
+ *
+ * The stream is requested with `method` (default GET), `headers` and an optional JSON `body`;
+ * `lastEventId` is sent as the Last-Event-ID header to resume a stream. Each event becomes
+ * `{ event, data, id }`, where `event` defaults to `message` and `data` is parsed according to
+ * `dataType` as described in StreamAction. Events are collected as described in StreamAction.
+ *
+ * example step definition:
+ * ```yaml
+ * - kind: SSE
+ *   id: order-events
+ *   name: Wait for the order to ship
+ *   params:
+ *     url: http://localhost:8080/orders/42/events
+ *     until:
+ *       event: order.shipped
+ *     timeout: 15000
+ *     responseValidation:
+ *       events: { $contains: [{ event: order.paid }] }
+ * ```
+ *
+ * The events are available as `{order-events.output.events}` and the response status and headers
+ * as `{order-events.output.status}` and `{order-events.output.headers}`.
+ */
+export class SseAction extends StreamAction {
+  protected readonly streamName = 'SSE';
+  protected readonly outputKey = 'events';
+
+  protected async connect(step: StepDefinition, context: ActionContext | undefined, handlers: StreamHandlers): Promise<StreamConnection> {
+    const method = (step.params.method || 'GET').toUpperCase();
+    const { url, headers } = await this.authorize(step, method);
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    context?.signal?.addEventListener('abort', abort);
+
+    const hasBody = step.params.body !== undefined && method !== 'GET';
+    const response = await fetch(url.toString(), {
+      method,
+      headers: {
+        Accept: 'text/event-stream',
+        ...(hasBody ? { 'Content-Type': 'application/json' } : {}),
+        ...(step.params.lastEventId !== undefined ? { 'Last-Event-ID': String(step.params.lastEventId) } : {}),
+        ...headers
+      },
+      body: hasBody ? (typeof step.params.body === 'string' ? step.params.body : JSON.stringify(step.params.body)) : undefined,
+      signal: controller.signal,
+      dispatcher: RestApiCallAction.getDispatcher()
+    });
+
+    const responseHeaders: Record<string, string> = {};
+    response.headers.forEach((value, key) => {
+      responseHeaders[key] = value;
+    });
+    const contentType = response.headers.get('content-type') || '';
+    if (!response.ok || !contentType.includes('text/event-stream') || !response.body) {
+      controller.abort();
+      context?.signal?.removeEventListener('abort', abort);
+      throw new Error(`Expected an event stream, got status ${response.status} with content type '${contentType}'`);
+    }
+
+    this.readEvents(response.body, step.params.dataType, handlers).finally(() => {
+      context?.signal?.removeEventListener('abort', abort);
+    });
+
+    return {
+      info: { status: response.status, headers: responseHeaders },
+      close: () => controller.abort()
+    };
+  }
+
+  // Parses the stream as described in the HTML Living Standard, section "Interpreting an event stream"
+  private async readEvents(body: NonNullable<Response['body']>, dataType: string | undefined, handlers: StreamHandlers): Promise<void> {
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let eventType = '';
+    let data: string[] = [];
+    let lastEventId: string | undefined;
+
+    const processLine = (line: string) => {
+      if (line === '') {
+        if (data.length > 0) {
+          handlers.message({
+            event: eventType || 'message',
+            data: this.parseData(data.join('\n'), dataType),
+            ...(lastEventId !== undefined ? { id: lastEventId } : {})
+          });
+        }
+        eventType = '';
+        data = [];
+        return;
+      }
+      if (line.startsWith(':')) return;
+
+      const colon = line.indexOf(':');
+      const field = colon === -1 ? line : line.slice(0, colon);
+      const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+      if (field === 'event') eventType = value;
+      else if (field === 'data') data.push(value);
+      else if (field === 'id' && !value.includes('\0')) lastEventId = value;
+    };
+
+    try {
+      for await (const chunk of body) {
+        buffer += decoder.decode(chunk, { stream: true });
+        // A \r at the end may be the first half of \r\n, so it waits for the next chunk
+        const end = buffer.endsWith('\r') ? buffer.length - 1 : buffer.length;
+        const lines = buffer.slice(0, end).split(/\r\n|\r|\n/);
+        // The last part is an incomplete line
+        buffer = lines.pop() + buffer.slice(end);
+        lines.forEach(processLine);
+      }
+      handlers.end();
+    } catch (error) {
+      // Aborting the request to close the stream is not an error
+      if (error instanceof Error && error.name === 'AbortError') return;
+      handlers.end(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  protected validateStepDefinition(step: StepDefinition): { success: boolean; errors: string[] } {
+    const { errors } = super.validateStepDefinition(step);
+
+    if (step.params?.url && !/^https?:\/\//.test(step.params.url)) {
+      errors.push('URL must start with http:// or https://');
+    }
+
+    return { success: errors.length === 0, errors };
+  }
+}
@@ -0,0 +1,223 @@
+import { BaseAction, ActionResult, StepDefinition, ActionContext } from './base-action';
+import { AssertionFailure } from '../assertion';
+import { AuthProfiles } from '../auth-profiles';
+import { AuthRequest } from '../auth-providers/base-auth-provider';
+import { Config } from '../config';
+
+export interface StreamHandlers {
+  // Called for every received message or event
+  message(message: any): void;
+  // Called when the server ends the stream, with the error when it failed
+  end(error?: Error): void;
+}
+
+export interface StreamConnection {
+  close(): void | Promise<void>;
+  // Details of the connection included in the output, e.g. the HTTP status
+  info?: Record<string, any>;
+}
+
+/**
+ * StreamAction class that implements the steps shared by the streaming actions (WebSocket and SSE).
+ *
+ * A step connects to `url` and collects incoming messages until one of these happens:
+ * - `count` messages have been received
+ * - a message matches `until` (a value or matcher, compared as in responseValidation)
+ * - the server ends the stream
+ * - `timeout` milliseconds have passed (default `actions.<name>.timeout`, then 10000), counted from
+ *   the start of the connection
+ *
+ * With `count` or `until`, the step fails when the condition is not met. Without them the step
+ * collects for the whole `timeout` and succeeds. `responseValidation` then checks the collected
+ * messages with `<messages>` (the whole list), `count` and `jsonPath`.
+ *
+ * `auth` applies a profile from `actions.restapi.auth` to the connection request.
+ *
+ * Subclasses open the connection of their protocol through connect().
+ */
+export abstract class StreamAction extends BaseAction {
+  // Name used in messages and, in lower case, as the config key under `actions`
+  protected abstract readonly streamName: string;
+  // Output key of the collected messages, e.g. `messages` or `events`
+  protected abstract readonly outputKey: string;
+
+  /**
+   * Opens the connection; it must give up when `context.signal` is aborted, e.g. by the step timeout.
+   */
+  protected abstract connect(step: StepDefinition, context: ActionContext | undefined, handlers: StreamHandlers): Promise<StreamConnection>;
+
+  public async execute(step: StepDefinition, context?: ActionContext): Promise<ActionResult> {
+    const validation = this.validateStepDefinition(step);
+    if (!validation.success) {
+      return {
+        success: false,
+        output: { error: 'Validation failed', details: validation.errors }
+      };
+    }
+
+    const timeout = Number(step.params.timeout ?? Config.get(`actions.${this.streamName.toLowerCase()}.timeout`) ?? 10000);
+    const count = step.params.count !== undefined ? Number(step.params.count) : undefined;
+    const until = step.params.until;
+    const messages: any[] = [];
+
+    // Messages that arrive after the step has finished collecting are ignored
+    let done = false;
+    let finish: (reason: string, error?: Error) => void = () => {};
+    const finished = new Promise<{ reason: string; error?: Error }>(resolve => {
+      finish = (reason, error) => {
+        done = true;
+        resolve({ reason, error });
+      };
+    });
+
+    // The timeout also covers connecting, so a server that never completes the handshake cannot hang the step
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      finish('timeout');
+      controller.abort();
+    }, timeout);
+    const abort = () => {
+      finish('aborted');
+      controller.abort();
+    };
+    context?.signal?.addEventListener('abort', abort);
+    if (context?.signal?.aborted) abort();
+
+    let connection: StreamConnection | undefined;
+    let outcome: { reason: string; error?: Error };
+    try {
+      try {
+        connection = await this.connect(step, { ...context, signal: controller.signal }, {
+          message: message => {
+            if (done) return;
+            messages.push(message);
+            if (count !== undefined && messages.length >= count) {
+              finish('count');
+            } else if (until !== undefined && this.assert(message, until).length === 0) {
+              finish('until');
+            }
+          },
+          end: error => {
+            if (!done) finish(error ? 'error' : 'closed', error);
+          }
+        });
+      } catch (error) {
+        const reason = done ? (await finished).reason : undefined;
+        return {
+          success: false,
+          output: {
+            error: reason === 'timeout'
+              ? `${this.streamName} connection was not established within ${timeout}ms`
+              : `${this.streamName} connection failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+          }
+        };
+      }
+      outcome = await finished;
+    } finally {
+      clearTimeout(timer);
+      context?.signal?.removeEventListener('abort', abort);
+      await connection?.close();
+    }
+
+    const output = { [this.outputKey]: messages, count: messages.length, ...connection!.info };
+    if (outcome.error) {
+      return {
+        success: false,
+        output: { error: `${this.streamName} stream failed: ${outcome.error.message}`, ...output }
+      };
+    }
+    if ((count !== undefined || until !== undefined) && !['count', 'until'].includes(outcome.reason)) {
+      const expected = count !== undefined ? `${count} ${this.outputKey}` : `a ${this.outputKey.replace(/s$/, '')} matching until`;
+      const ending = outcome.reason === 'timeout' ? `within ${timeout}ms` : 'before the stream was closed';
+      return {
+        success: false,
+        output: { error: `Did not receive ${expected} ${ending}, got ${messages.length}`, ...output }
+      };
+    }
+
+    const errors = this.validateMessages(output, step.params.responseValidation || {});
+    if (errors.length > 0) {
+      return {
+        success: false,
+        output: { error: 'Response validation failed', validationErrors: errors, ...output }
+      };
+    }
+
+    return { success: true, output };
+  }
+
+  /**
+   * Applies the step's auth profile, if any, to the URL and headers of the connection request.
+   */
+  protected async authorize(step: StepDefinition, method: string): Promise<{ url: URL; headers: Record<string, string> }> {
+    const request: AuthRequest = { method, url: new URL(step.params.url), headers: { ...step.params.headers } };
+    if (step.params.auth) {
+      const auth = await AuthProfiles.get(step.params.auth);
+      await auth.apply(request);
+    }
+    return { url: request.url, headers: request.headers };
+  }
+
+  /**
+   * Parses text data as JSON with `dataType: json`, keeps it as text with `text`, and with `auto`
+   * (the default) parses text that looks like a JSON object or array.
+   */
+  protected parseData(text: string, dataType: string = 'auto'): any {
+    if (dataType === 'text') return text;
+    if (dataType === 'json' || /^\s*[[{]/.test(text)) {
+      try {
+        return JSON.parse(text);
+      } catch (error) {
+        if (dataType === 'json') throw error;
+      }
+    }
+    return text;
+  }
+
+  private validateMessages(output: Record<string, any>, validation: any): AssertionFailure[] {
+    const errors: AssertionFailure[] = [];
+
+    if (validation[this.outputKey] !== undefined) {
+      errors.push(...this.assert(output[this.outputKey], validation[this.outputKey], `$.${this.outputKey}`));
+    }
+    if (validation.count !== undefined) {
+      errors.push(...this.assert(output.count, validation.count, '$.count'));
+    }
+    if (validation.jsonPath !== undefined) {
+      errors.push(...this.assertJsonPath(output, validation.jsonPath));
+    }
+
+    return errors;
+  }
+
+  protected validateStepDefinition(step: StepDefinition): { success: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    if (!step.params) {
+      errors.push('Parameters are required');
+      return { success: false, errors };
+    }
+
+    if (!step.params.url) {
+      errors.push('URL is required');
+    }
+
+    if (step.params.count !== undefined && !(Number.isInteger(Number(step.params.count)) && Number(step.params.count) > 0)) {
+      errors.push('Count must be a positive integer');
+    }
+
+    if (step.params.timeout !== undefined && !(Number(step.params.timeout) > 0)) {
+      errors.push('Timeout must be a positive number of milliseconds');
+    }
+
+    if (step.params.dataType !== undefined && !['auto', 'json', 'text'].includes(step.params.dataType)) {
+      errors.push('dataType must be one of: auto, json, text');
+    }
+
+    if (step.params.auth !== undefined && typeof step.params.auth !== 'string') {
+      errors.push('auth must be the name of a profile in actions.restapi.auth');
+    }
+
+    return { success: errors.length === 0, errors };
+  }
+}
@@ -0,0 +1,256 @@
+import { BaseAction, ActionResult, StepDefinition, ActionContext } from './base-action';
+import { RestApiCallAction } from './rest-api-action';
+import { ActionRegistry } from '../action-registry';
+import { Config } from '../config';
+import { fetch } from 'undici';
+import * as net from 'net';
+
+interface ProbeResult {
+  ready: boolean;
+  // What the check observed, reported when the deadline passes
+  state: any;
+}
+
+type Probe = (timeout: number) => Promise<ProbeResult>;
+
+/**
+ * WaitForAction class that extends BaseAction to wait until a service is ready.
+ *
+ * Exactly one check is given: `tcp` (a port accepts connections), `http` (an endpoint answers with
+ * the expected status and body) or `sql` (a query returns rows). The check is repeated every
+ * `interval` milliseconds until it passes or `timeout` milliseconds have passed; each attempt is
+ * limited to `attemptTimeout`. Defaults come from `actions.waitfor` in config.
+ *
+ * example step definitions:
+ * ```yaml
+ * - kind: WaitFor
+ *   name: Database port is open
+ *   params:
+ *     tcp: localhost:5432
+ *     timeout: 30000
+ *
+ * - kind: WaitFor
+ *   name: API is healthy
+ *   params:
+ *     http:
+ *       url: http://localhost:8080/health
+ *       status: 200
+ *       body: { status: UP }
+ *     interval: 500
+ *
+ * - kind: WaitFor
+ *   name: Migrations have run
+ *   params:
+ *     sql:
+ *       kind: PostgreSQL
+ *       connection: admin
+ *       query: SELECT 1 FROM information_schema.tables WHERE table_name = 'users'
+ * ```
+ *
+ * `http.status` defaults to any 2xx or 3xx status, and `http.body` may use the matchers described in
+ * Assertion. `sql.kind` is the SQL action that runs the query (default PostgreSQL); the query never
+ * joins the test case transaction. When the deadline passes the step fails with the last observed state.
+ */
+export class WaitForAction extends BaseAction {
+  public async execute(step: StepDefinition, context?: ActionContext): Promise<ActionResult> {
+    const validation = this.validateStepDefinition(step);
+    if (!validation.success) {
+      return {
+        success: false,
+        output: { error: 'Validation failed', details: validation.errors }
+      };
+    }
+
+    const timeout = Number(step.params.timeout ?? Config.get('actions.waitfor.timeout') ?? 60000);
+    const interval = Number(step.params.interval ?? Config.get('actions.waitfor.interval') ?? 1000);
+    const attemptTimeout = Number(step.params.attemptTimeout ?? Config.get('actions.waitfor.attemptTimeout') ?? 5000);
+    const { target, probe } = this.createProbe(step, context);
+
+    const startTime = Date.now();
+    const deadline = startTime + timeout;
+    let attempts = 0;
+    let last: ProbeResult;
+    while (true) {
+      attempts++;
+      last = await probe(Math.max(1, Math.min(attemptTimeout, deadline - Date.now())));
+      if (last.ready) {
+        return {
+          success: true,
+          output: { target, attempts, elapsed: Date.now() - startTime, state: last.state }
+        };
+      }
+      if (context?.signal?.aborted || Date.now() + interval >= deadline) {
+        break;
+      }
+      await new Promise(resolve => setTimeout(resolve, interval));
+    }
+
+    return {
+      success: false,
+      output: {
+        error: `Timed out after ${timeout}ms waiting for ${target} (${attempts} attempt(s)); last state: ${this.describe(last.state)}`,
+        target,
+        attempts,
+        elapsed: Date.now() - startTime,
+        lastState: last.state
+      }
+    };
+  }
+
+  private createProbe(step: StepDefinition, context?: ActionContext): { target: string; probe: Probe } {
+    if (step.params.tcp) {
+      const { host, port } = typeof step.params.tcp === 'string'
+        ? this.parseHostPort(step.params.tcp)
+        : { host: step.params.tcp.host || 'localhost', port: Number(step.params.tcp.port) };
+      return { target: `tcp ${host}:${port}`, probe: timeout => this.probeTcp(host, port, timeout) };
+    }
+
+    if (step.params.http) {
+      const http = typeof step.params.http === 'string' ? { url: step.params.http } : step.params.http;
+      return { target: `http ${http.url}`, probe: timeout => this.probeHttp(http, timeout) };
+    }
+
+    const sql = step.params.sql;
+    const kind = sql.kind || 'PostgreSQL';
+    return { target: `${kind} query`, probe: timeout => this.probeSql(kind, sql, timeout, context) };
+  }
+
+  private probeTcp(host: string, port: number, timeout: number): Promise<ProbeResult> {
+    return new Promise(resolve => {
+      const socket = net.connect({ host, port });
+      const finish = (result: ProbeResult) => {
+        socket.destroy();
+        resolve(result);
+      };
+      socket.setTimeout(timeout, () => finish({ ready: false, state: `connection timed out after ${timeout}ms` }));
+      socket.once('connect', () => finish({ ready: true, state: 'connected' }));
+      socket.once('error', (error: NodeJS.ErrnoException) => finish({ ready: false, state: error.code || error.message }));
+    });
+  }
+
+  private async probeHttp(http: any, timeout: number): Promise<ProbeResult> {
+    try {
+      const response = await fetch(http.url, {
+        method: (http.method || 'GET').toUpperCase(),
+        headers: http.headers,
+        dispatcher: RestApiCallAction.getDispatcher(),
+        signal: AbortSignal.timeout(timeout)
+      });
+      const text = await response.text();
+      let body: any = text;
+      if ((response.headers.get('content-type') || '').includes('json') && text !== '') {
+        try {
+          body = JSON.parse(text);
+        } catch {
+          // A health endpoint may declare JSON while still starting up; the text is compared instead
+        }
+      }
+
+      const state = { status: response.status, body };
+      const expectedStatus = http.status !== undefined ? http.status : { $gte: 200, $lt: 400 };
+      const failures = [
+        ...this.assert(response.status, expectedStatus, '$.status'),
+        ...(http.body !== undefined ? this.assert(body, http.body, '$.body') : [])
+      ];
+      return { ready: failures.length === 0, state: failures.length === 0 ? state : { ...state, failures: failures.map(failure => failure.message) } };
+    } catch (error) {
+      const cause = error instanceof Error && 'cause' in error && error.cause !== undefined ? error.cause : error;
+      const code = typeof cause === 'object' && cause !== null && 'code' in cause ? cause.code : undefined;
+      return { ready: false, state: code || (cause instanceof Error ? cause.message : 'Unknown error') };
+    }
+  }
+
+  private async probeSql(kind: string, sql: any, timeout: number, context?: ActionContext): Promise<ProbeResult> {
+    const action = ActionRegistry.get(kind);
+    if (!action) {
+      throw new Error(`Unknown action kind for sql: ${kind}`);
+    }
+
+    // The attempt is aborted, which cancels a running query, when it times out or the step is aborted
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    context?.signal?.addEventListener('abort', abort);
+    if (context?.signal?.aborted) abort();
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<ProbeResult>(resolve => {
+      timer = setTimeout(() => {
+        abort();
+        resolve({ ready: false, state: `attempt timed out after ${timeout}ms` });
+      }, timeout);
+    });
+
+    const { kind: _kind, ...params } = sql;
+    try {
+      // Without the test case isolation the query runs on its own connection, outside any test case transaction
+      const execution = action.execute(
+        { id: 'wait-for', name: 'WaitFor query', kind, params },
+        { signal: controller.signal, baseDir: context?.baseDir }
+      ).then(result => this.toSqlProbeResult(result));
+      // Connecting to an unreachable host does not observe the signal, so the attempt is also raced against its timer
+      return await Promise.race([execution, timedOut]);
+    } finally {
+      clearTimeout(timer);
+      context?.signal?.removeEventListener('abort', abort);
+    }
+  }
+
+  private toSqlProbeResult(result: ActionResult): ProbeResult {
+    if (!result.success) {
+      return { ready: false, state: result.output?.error || result.output };
+    }
+
+    const rows = result.output?.result?.rows || [];
+    return { ready: rows.length > 0, state: { rowCount: rows.length, rows } };
+  }
+
+  private parseHostPort(address: string): { host: string; port: number } {
+    const index = address.lastIndexOf(':');
+    return { host: address.slice(0, index).replace(/^\[|\]$/g, '') || 'localhost', port: Number(address.slice(index + 1)) };
+  }
+
+  private describe(state: any): string {
+    return typeof state === 'string' ? state : JSON.stringify(state);
+  }
+
+  private validateStepDefinition(step: StepDefinition): { success: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    if (!step.params) {
+      errors.push('Parameters are required');
+      return { success: false, errors };
+    }
+
+    const checks = ['tcp', 'http', 'sql'].filter(check => step.params[check] !== undefined);
+    if (checks.length !== 1) {
+      errors.push('Exactly one of tcp, http or sql is required');
+      return { success: false, errors };
+    }
+
+    if (step.params.tcp !== undefined) {
+      const port = typeof step.params.tcp === 'string' ? this.parseHostPort(step.params.tcp).port : Number(step.params.tcp?.port);
+      if (!Number.isInteger(port) || port <= 0) {
+        errors.push('tcp must be host:port or { host, port }');
+      }
+    }
+
+    if (step.params.http !== undefined && typeof step.params.http !== 'string' && typeof step.params.http?.url !== 'string') {
+      errors.push('http must be a URL or { url, method, headers, status, body }');
+    }
+
+    if (step.params.sql !== undefined) {
+      if (typeof step.params.sql?.query !== 'string') {
+        errors.push('sql.query is required');
+      } else if (!ActionRegistry.has(step.params.sql.kind || 'PostgreSQL')) {
+        errors.push(`sql.kind '${step.params.sql.kind}' is not a registered action`);
+      }
+    }
+
+    for (const name of ['timeout', 'interval', 'attemptTimeout']) {
+      if (step.params[name] !== undefined && !(Number(step.params[name]) > 0)) {
+        errors.push(`${name} must be a positive number of milliseconds`);
+      }
+    }
+
+    return { success: errors.length === 0, errors };
+  }
+}
@@ -0,0 +1,128 @@
+import { StepDefinition, ActionContext } from './base-action';
+import { StreamAction, StreamHandlers, StreamConnection } from './stream-action';
+import { RestApiCallAction } from './rest-api-action';
+import { WebSocket, ErrorEvent } from 'undici';
+
+/**
+ * WebSocketAction class that extends StreamAction to exchange messages over a WebSocket.
+ *
+ * After connecting, the messages in `send` are sent in order (strings as they are, other values as
+ * JSON), `sendInterval` milliseconds apart. Incoming messages are collected as described in
+ * StreamAction; text is parsed as JSON according to `dataType` and binary messages become base64 text.
+ *
+ * example step definition:
+ * ```yaml
+ * - kind: WebSocket
+ *   id: notifications
+ *   name: Subscribe to order notifications
+ *   params:
+ *     url: ws://localhost:8080/notifications
+ *     headers:
+ *       X-Client: integration-tests
+ *     protocols: [notifications.v1]
+ *     send:
+ *     - { type: subscribe, topic: orders }
+ *     until: { type: order.created }
+ *     timeout: 5000
+ *     responseValidation:
+ *       messages: { $contains: [{ type: subscribed }] }
+ * ```
+ *
+ * The messages are available as `{notifications.output.messages}`, and the close code and reason
+ * sent by the server as `{notifications.output.closeCode}` and `{notifications.output.closeReason}`.
+ */
+export class WebSocketAction extends StreamAction {
+  protected readonly streamName = 'WebSocket';
+  protected readonly outputKey = 'messages';
+
+  protected async connect(step: StepDefinition, context: ActionContext | undefined, handlers: StreamHandlers): Promise<StreamConnection> {
+    const { url, headers } = await this.authorize(step, 'GET');
+    const info: Record<string, any> = {};
+    const socket = new WebSocket(url.toString(), {
+      protocols: step.params.protocols,
+      headers,
+      dispatcher: RestApiCallAction.getDispatcher()
+    });
+    socket.binaryType = 'arraybuffer';
+
+    // The abort listener only guards the handshake and is removed once the socket opens or fails
+    await new Promise<void>((resolve, reject) => {
+      const abort = () => {
+        socket.close();
+        reject(new Error('Aborted'));
+      };
+      const settle = (error?: Error) => {
+        context?.signal?.removeEventListener('abort', abort);
+        if (error) {
+          reject(error);
+        } else {
+          resolve();
+        }
+      };
+      socket.addEventListener('open', () => settle(), { once: true });
+      socket.addEventListener('error', event => settle(this.toError(event)), { once: true });
+      context?.signal?.addEventListener('abort', abort, { once: true });
+      if (context?.signal?.aborted) abort();
+    });
+    info.protocol = socket.protocol;
+
+    socket.addEventListener('message', event => {
+      try {
+        handlers.message(typeof event.data === 'string'
+          ? this.parseData(event.data, step.params.dataType)
+          : Buffer.from(event.data as ArrayBuffer).toString('base64'));
+      } catch (error) {
+        handlers.end(error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+    socket.addEventListener('close', event => {
+      info.closeCode = event.code;
+      info.closeReason = event.reason;
+      handlers.end();
+    });
+    socket.addEventListener('error', event => handlers.end(this.toError(event)));
+
+    // Sending continues in the background while messages are collected
+    (async () => {
+      for (const [index, message] of (step.params.send || []).entries()) {
+        if (index > 0 && step.params.sendInterval) {
+          await new Promise(resolve => setTimeout(resolve, Number(step.params.sendInterval)));
+        }
+        if (socket.readyState !== WebSocket.OPEN) return;
+        socket.send(typeof message === 'string' ? message : JSON.stringify(message));
+      }
+    })();
+
+    return {
+      info,
+      close: () => new Promise<void>(resolve => {
+        if (socket.readyState === WebSocket.CLOSED) return resolve();
+        // A server that does not answer the close handshake must not hold up the step
+        const timer = setTimeout(resolve, 1000);
+        socket.addEventListener('close', () => {
+          clearTimeout(timer);
+          resolve();
+        });
+        socket.close(1000);
+      })
+    };
+  }
+
+  private toError(event: Event): Error {
+    return event instanceof ErrorEvent && event.error instanceof Error ? event.error : new Error('WebSocket error');
+  }
+
+  protected validateStepDefinition(step: StepDefinition): { success: boolean; errors: string[] } {
+    const { errors } = super.validateStepDefinition(step);
+
+    if (step.params?.url && !/^wss?:\/\//.test(step.params.url)) {
+      errors.push('URL must start with ws:// or wss://');
+    }
+
+    if (step.params?.send !== undefined && !Array.isArray(step.params.send)) {
+      errors.push('Send must be an array of messages');
+    }
+
+    return { success: errors.length === 0, errors };
+  }
+}
@@ -0,0 +1,237 @@
+export interface AssertionFailure {
+  path: string;
+  message: string;
+  expected: any;
+  actual: any;
+}
+
+type Matcher = (actual: any, operand: any, path: string, matcher: Record<string, any>) => AssertionFailure[];
+
+// Keys that modify another matcher instead of being matchers themselves
+const MODIFIERS = ['$options', '$tolerance'];
+
+const TYPE_CHECKS: Record<string, (value: any) => boolean> = {
+  string: value => typeof value === 'string',
+  number: value => typeof value === 'number' && !Number.isNaN(value),
+  integer: value => Number.isInteger(value),
+  boolean: value => typeof value === 'boolean',
+  object: value => value !== null && typeof value === 'object' && !Array.isArray(value),
+  array: value => Array.isArray(value),
+  null: value => value === null
+};
+
+function describe(value: any): string {
+  return value === undefined ? 'undefined' : JSON.stringify(value);
+}
+
+function failure(path: string, message: string, expected: any, actual: any): AssertionFailure[] {
+  return [{ path, message, expected, actual }];
+}
+
+// Numeric matchers also accept numeric strings, since drivers such as pg return COUNT and DECIMAL as text
+function toNumber(value: any): number | undefined {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value))) return Number(value);
+  return undefined;
+}
+
+function numericMatcher(name: string, description: string, check: (actual: number, expected: number) => boolean): Matcher {
+  return (actual, operand, path) => {
+    const actualNumber = toNumber(actual);
+    const expectedNumber = toNumber(operand);
+    if (expectedNumber === undefined) {
+      return failure(path, `Matcher ${name} requires a number, got ${describe(operand)}`, operand, actual);
+    }
+    if (actualNumber === undefined || !check(actualNumber, expectedNumber)) {
+      return failure(path, `Expected ${path} to be ${description} ${operand}, got ${describe(actual)}`, { [name]: operand }, actual);
+    }
+    return [];
+  };
+}
+
+const MATCHERS: Record<string, Matcher> = {
+  $eq: (actual, operand, path) => Assertion.match(actual, operand, path),
+  $ne: (actual, operand, path) =>
+    Assertion.match(actual, operand, path).length === 0
+      ? failure(path, `Expected ${path} not to equal ${describe(operand)}`, { $ne: operand }, actual)
+      : [],
+  $gt: numericMatcher('$gt', 'greater than', (a, e) => a > e),
+  $gte: numericMatcher('$gte', 'greater than or equal to', (a, e) => a >= e),
+  $lt: numericMatcher('$lt', 'less than', (a, e) => a < e),
+  $lte: numericMatcher('$lte', 'less than or equal to', (a, e) => a <= e),
+  $closeTo: (actual, operand, path, matcher) => {
+    const tolerance = matcher.$tolerance !== undefined ? Number(matcher.$tolerance) : 1e-9;
+    const actualNumber = toNumber(actual);
+    const expectedNumber = toNumber(operand);
+    if (expectedNumber === undefined) {
+      return failure(path, `Matcher $closeTo requires a number, got ${describe(operand)}`, operand, actual);
+    }
+    if (actualNumber === undefined || Math.abs(actualNumber - expectedNumber) > tolerance) {
+      return failure(path, `Expected ${path} to be within ${tolerance} of ${operand}, got ${describe(actual)}`, { $closeTo: operand, $tolerance: tolerance }, actual);
+    }
+    return [];
+  },
+  $regex: (actual, operand, path, matcher) => {
+    let regex: RegExp;
+    try {
+      regex = new RegExp(String(operand), matcher.$options || '');
+    } catch (error) {
+      return failure(path, `Invalid $regex ${describe(operand)}: ${error instanceof Error ? error.message : 'Unknown error'}`, operand, actual);
+    }
+    if (typeof actual !== 'string' && typeof actual !== 'number') {
+      return failure(path, `Expected ${path} to match ${regex}, got ${describe(actual)}`, { $regex: operand }, actual);
+    }
+    return regex.test(String(actual)) ? [] : failure(path, `Expected ${path} to match ${regex}, got ${describe(actual)}`, { $regex: operand }, actual);
+  },
+  $type: (actual, operand, path) => {
+    const types: string[] = Array.isArray(operand) ? operand : [operand];
+    const unknown = types.find(type => !TYPE_CHECKS[type]);
+    if (unknown) {
+      return failure(path, `Unknown $type '${unknown}', valid types are: ${Object.keys(TYPE_CHECKS).join(', ')}`, operand, actual);
+    }
+    return types.some(type => TYPE_CHECKS[type](actual))
+      ? []
+      : failure(path, `Expected ${path} to be of type ${types.join(' | ')}, got ${describe(actual)}`, { $type: operand }, actual);
+  },
+  $any: (actual, operand, path) => {
+    if (operand === false) {
+      return actual === undefined ? [] : failure(path, `Expected ${path} to be absent, got ${describe(actual)}`, { $any: false }, actual);
+    }
+    return actual !== undefined ? [] : failure(path, `Expected ${path} to be present`, { $any: operand }, actual);
+  },
+  $exists: (actual, operand, path) => MATCHERS.$any(actual, !!operand, path, {}),
+  $in: (actual, operand, path) => {
+    const candidates: any[] = Array.isArray(operand) ? operand : [operand];
+    return candidates.some(candidate => Assertion.match(actual, candidate, path).length === 0)
+      ? []
+      : failure(path, `Expected ${path} to be one of ${describe(candidates)}, got ${describe(actual)}`, { $in: candidates }, actual);
+  },
+  $nin: (actual, operand, path) => {
+    const candidates: any[] = Array.isArray(operand) ? operand : [operand];
+    return candidates.some(candidate => Assertion.match(actual, candidate, path).length === 0)
+      ? failure(path, `Expected ${path} not to be one of ${describe(candidates)}, got ${describe(actual)}`, { $nin: candidates }, actual)
+      : [];
+  },
+  $not: (actual, operand, path) =>
+    Assertion.match(actual, operand, path).length === 0
+      ? failure(path, `Expected ${path} not to match ${describe(operand)}`, { $not: operand }, actual)
+      : [],
+  $length: (actual, operand, path) => {
+    if (typeof actual !== 'string' && !Array.isArray(actual)) {
+      return failure(path, `Expected ${path} to have a length, got ${describe(actual)}`, { $length: operand }, actual);
+    }
+    return Assertion.match(actual.length, operand, `${path}.length`);
+  },
+  $contains: (actual, operand, path) => {
+    if (typeof actual === 'string') {
+      return actual.includes(String(operand))
+        ? []
+        : failure(path, `Expected ${path} to contain ${describe(operand)}, got ${describe(actual)}`, { $contains: operand }, actual);
+    }
+    if (!Array.isArray(actual)) {
+      return failure(path, `Expected ${path} to be an array or string, got ${describe(actual)}`, { $contains: operand }, actual);
+    }
+    // Every expected item must match some element; extra elements in the actual array are ignored
+    const expectedItems: any[] = Array.isArray(operand) ? operand : [operand];
+    return expectedItems.flatMap((item, index) =>
+      actual.some(element => Assertion.match(element, item, path).length === 0)
+        ? []
+        : failure(path, `Expected ${path} to contain an element matching ${describe(item)} ($contains[${index}])`, item, actual)
+    );
+  },
+  $unordered: (actual, operand, path) => {
+    if (!Array.isArray(actual) || !Array.isArray(operand)) {
+      return failure(path, `Expected ${path} to be an array, got ${describe(actual)}`, { $unordered: operand }, actual);
+    }
+    if (actual.length !== operand.length) {
+      return failure(`${path}.length`, `Expected ${path} to have ${operand.length} element(s), got ${actual.length}`, operand.length, actual.length);
+    }
+    const remaining = [...actual];
+    return operand.flatMap(item => {
+      const index = remaining.findIndex(element => Assertion.match(element, item, path).length === 0);
+      if (index === -1) {
+        return failure(path, `Expected ${path} to contain an element matching ${describe(item)}`, item, actual);
+      }
+      remaining.splice(index, 1);
+      return [];
+    });
+  }
+};
+
+/**
+ * Assertion class that compares actual values against expected values written in YAML.
+ *
+ * Plain values are compared with strict equality, objects match when every expected key matches
+ * (extra keys are ignored) and arrays match element by element with the same length.
+ * An object whose keys start with `$` is a matcher; when several matchers are given, all must pass.
+ *
+ * Matchers:
+ * - `$eq`, `$ne`: equality / inequality
+ * - `$gt`, `$gte`, `$lt`, `$lte`: numeric comparison (numeric strings are accepted)
+ * - `$closeTo` with optional `$tolerance`: numeric comparison with tolerance
+ * - `$regex` with optional `$options`: regular expression match
+ * - `$type`: `string`, `number`, `integer`, `boolean`, `object`, `array`, `null` (or a list of them)
+ * - `$any: true` / `$exists`: the value is present (`$any: false` / `$exists: false` for absent)
+ * - `$in`, `$nin`: the value is / is not one of the listed values
+ * - `$not`: the nested matcher must fail
+ * - `$length`: length of a string or array, compared with a value or a matcher
+ * - `$contains`: substring, or array containing elements matching every listed item (extra elements are ignored)
+ * - `$unordered`: array with the same elements in any order
+ *
+ * example:
+ * ```yaml
+ * body:
+ *   id: { $regex: '^usr_' }
+ *   age: { $gt: 0, $lt: 150 }
+ *   price: { $closeTo: 49.99, $tolerance: 0.01 }
+ *   tags: { $contains: ['admin'] }
+ *   createdAt: { $type: string }
+ *   updatedAt: { $any: true }
+ * ```
+ */
+export class Assertion {
+  public static match(actual: any, expected: any, path: string = '$'): AssertionFailure[] {
+    if (Assertion.isMatcher(expected)) {
+      return Object.entries(expected)
+        .filter(([name]) => !MODIFIERS.includes(name))
+        .flatMap(([name, operand]) => {
+          const matcher = MATCHERS[name];
+          if (!matcher) {
+            return failure(path, `Unknown matcher '${name}', valid matchers are: ${Object.keys(MATCHERS).join(', ')}`, expected, actual);
+          }
+          return matcher(actual, operand, path, expected);
+        });
+    }
+
+    if (Array.isArray(expected)) {
+      if (!Array.isArray(actual)) {
+        return failure(path, `Expected ${path} to be an array, got ${describe(actual)}`, expected, actual);
+      }
+      if (actual.length !== expected.length) {
+        return failure(`${path}.length`, `Expected ${path} to have ${expected.length} element(s), got ${actual.length}`, expected.length, actual.length);
+      }
+      return expected.flatMap((item, index) => Assertion.match(actual[index], item, `${path}[${index}]`));
+    }
+
+    if (expected !== null && typeof expected === 'object') {
+      if (actual === null || typeof actual !== 'object' || Array.isArray(actual)) {
+        return failure(path, `Expected ${path} to be an object, got ${describe(actual)}`, expected, actual);
+      }
+      return Object.entries(expected).flatMap(([key, value]) => Assertion.match(actual[key], value, Assertion.childPath(path, key)));
+    }
+
+    if (actual !== expected) {
+      return failure(path, `Expected ${path}: ${describe(expected)}, got: ${describe(actual)}`, expected, actual);
+    }
+    return [];
+  }
+
+  public static childPath(path: string, key: string): string {
+    return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}['${key.replace(/'/g, '\\\'')}']`;
+  }
+
+  private static isMatcher(value: any): value is Record<string, any> {
+    return value !== null && typeof value === 'object' && !Array.isArray(value) &&
+      Object.keys(value).length > 0 && Object.keys(value).every(key => key.startsWith('$'));
+  }
+}
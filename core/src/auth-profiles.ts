@@ -0,0 +1,113 @@
+import { BaseAuthProvider } from './auth-providers/base-auth-provider';
+import { BasicAuthProvider } from './auth-providers/basic-auth-provider';
+import { BearerAuthProvider } from './auth-providers/bearer-auth-provider';
+import { ApiKeyAuthProvider } from './auth-providers/api-key-auth-provider';
+import { OAuth2AuthProvider } from './auth-providers/oauth2-auth-provider';
+import { HmacAuthProvider } from './auth-providers/hmac-auth-provider';
+import { Config } from './config';
+import { Secrets } from './secrets';
+
+type AuthProviderConstructor = new (options: Record<string, any>) => BaseAuthProvider;
+
+const REFERENCE_PATTERN = /\{(secrets|env)\.([\w.-]+)\}/g;
+
+/**
+ * AuthProfiles class that creates the auth providers configured under `actions.restapi.auth`.
+ *
+ * Each profile is created once per run, so providers such as OAuth2 can cache tokens across steps
+ * and test cases. String values may reference `{secrets.<name>}` and `{env.<NAME>}`.
+ *
+ * example config:
+ * ```yaml
+ * actions:
+ *   restapi:
+ *     auth:
+ *       admin:
+ *         type: basic
+ *         username: admin
+ *         password: "{secrets.adminPassword}"
+ *       service:
+ *         type: oauth2
+ *         tokenUrl: https://auth.example.com/oauth/token
+ *         clientId: integration-tests
+ *         clientSecret: "{secrets.oauthClientSecret}"
+ * ```
+ */
+export class AuthProfiles {
+  private static instance: AuthProfiles | null = null;
+  private types: Map<string, AuthProviderConstructor> = new Map();
+  private providers: Map<string, BaseAuthProvider> = new Map();
+
+  private constructor() {
+    this.types.set('basic', BasicAuthProvider);
+    this.types.set('bearer', BearerAuthProvider);
+    this.types.set('apikey', ApiKeyAuthProvider);
+    this.types.set('oauth2', OAuth2AuthProvider);
+    this.types.set('hmac', HmacAuthProvider);
+  }
+
+  public static getInstance(): AuthProfiles {
+    if (!AuthProfiles.instance) {
+      AuthProfiles.instance = new AuthProfiles();
+    }
+    return AuthProfiles.instance;
+  }
+
+  /**
+   * Registers an additional profile type, e.g. for a custom signing scheme.
+   */
+  public static registerType(type: string, providerClass: AuthProviderConstructor): void {
+    const instance = AuthProfiles.getInstance();
+    instance.types.set(type, providerClass);
+  }
+
+  public static async get(name: string): Promise<BaseAuthProvider> {
+    const instance = AuthProfiles.getInstance();
+    let provider = instance.providers.get(name);
+    if (!provider) {
+      const profiles = Config.get('actions.restapi.auth') || {};
+      const profile = profiles[name];
+      if (!profile || typeof profile !== 'object') {
+        const available = Object.keys(profiles);
+        throw new Error(`Auth profile '${name}' is not defined in actions.restapi.auth${available.length > 0 ? `. Available profiles: ${available.join(', ')}` : ''}`);
+      }
+
+      const providerClass = instance.types.get(profile.type);
+      if (!providerClass) {
+        throw new Error(`Unknown type '${profile.type}' in auth profile '${name}'. Valid types are: ${Array.from(instance.types.keys()).join(', ')}`);
+      }
+
+      provider = new providerClass(await AuthProfiles.resolveReferences(profile));
+      instance.providers.set(name, provider);
+    }
+    return provider;
+  }
+
+  public static reset(): void {
+    const instance = AuthProfiles.getInstance();
+    instance.providers.clear();
+  }
+
+  private static async resolveReferences(value: any): Promise<any> {
+    if (typeof value === 'string') {
+      let result = value;
+      for (const [reference, namespace, name] of value.matchAll(REFERENCE_PATTERN)) {
+        const resolved = namespace === 'secrets' ? await Secrets.get(name) : process.env[name];
+        if (resolved === undefined) {
+          throw new Error(`Unresolved reference '${reference}' in auth profile`);
+        }
+        result = result.split(reference).join(resolved);
+      }
+      return result;
+    } else if (Array.isArray(value)) {
+      return Promise.all(value.map(item => AuthProfiles.resolveReferences(item)));
+    } else if (value && typeof value === 'object') {
+      const result: any = {};
+      for (const [key, item] of Object.entries(value)) {
+        result[key] = await AuthProfiles.resolveReferences(item);
+      }
+      return result;
+    }
+    return value;
+  }
+}
@@ -0,0 +1,27 @@
+import { BaseAuthProvider, AuthRequest } from './base-auth-provider';
+
+/**
+ * ApiKeyAuthProvider class that sends an API key in a header (default `X-API-Key`) or a query parameter.
+ *
+ * example profile:
+ * ```yaml
+ * partner:
+ *   type: apikey
+ *   key: "{secrets.partnerApiKey}"
+ *   in: query
+ *   name: api_key
+ * ```
+ */
+export class ApiKeyAuthProvider extends BaseAuthProvider {
+  public async apply(request: AuthRequest): Promise<void> {
+    this.require('key');
+    const location = this.options.in || 'header';
+    if (location === 'query') {
+      request.url.searchParams.set(this.options.name || 'api_key', String(this.options.key));
+    } else if (location === 'header') {
+      request.headers[this.options.name || 'X-API-Key'] = String(this.options.key);
+    } else {
+      throw new Error(`Invalid API key location '${location}'. Valid locations are: header, query`);
+    }
+  }
+}
@@ -0,0 +1,40 @@
+import { Dispatcher } from 'undici';
+
+export interface AuthRequest {
+  method: string;
+  url: URL;
+  headers: Record<string, string>;
+  // Raw request body; only string and Buffer bodies can be signed
+  body?: any;
+  // Dispatcher with the configured TLS and proxy settings, used for token requests
+  dispatcher?: Dispatcher;
+}
+
+export abstract class BaseAuthProvider {
+  protected options: Record<string, any>;
+
+  constructor(options: Record<string, any>) {
+    this.options = options;
+  }
+
+  /**
+   * Adds credentials to the request by modifying its headers or URL.
+   */
+  public abstract apply(request: AuthRequest): Promise<void>;
+
+  /**
+   * Drops cached credentials so that the next request obtains new ones.
+   * Returns true when there was something to drop, i.e. a repeated request may succeed.
+   */
+  public invalidate(): boolean {
+    return false;
+  }
+
+  protected require(...names: string[]): void {
+    for (const name of names) {
+      if (this.options[name] === undefined || this.options[name] === null || this.options[name] === '') {
+        throw new Error(`Auth profile of type '${this.options.type}' requires '${name}'`);
+      }
+    }
+  }
+}
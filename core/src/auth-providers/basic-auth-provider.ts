@@ -0,0 +1,20 @@
+import { BaseAuthProvider, AuthRequest } from './base-auth-provider';
+
+/**
+ * BasicAuthProvider class that sends HTTP Basic credentials.
+ *
+ * example profile:
+ * ```yaml
+ * admin:
+ *   type: basic
+ *   username: admin
+ *   password: "{secrets.adminPassword}"
+ * ```
+ */
+export class BasicAuthProvider extends BaseAuthProvider {
+  public async apply(request: AuthRequest): Promise<void> {
+    this.require('username');
+    const credentials = Buffer.from(`${this.options.username}:${this.options.password ?? ''}`).toString('base64');
+    request.headers['Authorization'] = `Basic ${credentials}`;
+  }
+}
@@ -0,0 +1,18 @@
+import { BaseAuthProvider, AuthRequest } from './base-auth-provider';
+
+/**
+ * BearerAuthProvider class that sends a static bearer token.
+ *
+ * example profile:
+ * ```yaml
+ * user:
+ *   type: bearer
+ *   token: "{secrets.apiToken}"
+ * ```
+ */
+export class BearerAuthProvider extends BaseAuthProvider {
+  public async apply(request: AuthRequest): Promise<void> {
+    this.require('token');
+    request.headers['Authorization'] = `Bearer ${this.options.token}`;
+  }
+}
@@ -0,0 +1,59 @@
+import { BaseAuthProvider, AuthRequest } from './base-auth-provider';
+import * as crypto from 'crypto';
+
+/**
+ * HmacAuthProvider class that signs each request with a shared secret.
+ *
+ * The signed string is the method, the path with query string, the timestamp and the hex digest of
+ * the body, separated by newlines:
+ * ```
+ * POST
+ * /orders?dryRun=true
+ * 2024-01-01T00:00:00.000Z
+ * 5d41402abc4b2a76b9719d911017c592...
+ * ```
+ * The signature is sent in `header` (default `X-Signature`) and the timestamp in `timestampHeader`
+ * (default `X-Timestamp`). `keyId` is sent in `keyIdHeader` (default `X-Key-Id`) when given.
+ *
+ * example profile:
+ * ```yaml
+ * partner-signed:
+ *   type: hmac
+ *   keyId: partner-1
+ *   secret: "{secrets.partnerSigningKey}"
+ *   algorithm: sha256
+ *   encoding: base64
+ * ```
+ */
+export class HmacAuthProvider extends BaseAuthProvider {
+  public async apply(request: AuthRequest): Promise<void> {
+    this.require('secret');
+    const {
+      secret,
+      keyId,
+      algorithm = 'sha256',
+      encoding = 'hex',
+      header = 'X-Signature',
+      timestampHeader = 'X-Timestamp',
+      keyIdHeader = 'X-Key-Id'
+    } = this.options;
+
+    if (request.body !== undefined && typeof request.body !== 'string' && !Buffer.isBuffer(request.body)) {
+      throw new Error('HMAC signing supports only json, form, text and binary request bodies');
+    }
+    if (encoding !== 'hex' && encoding !== 'base64') {
+      throw new Error(`Invalid HMAC encoding '${encoding}'. Valid encodings are: hex, base64`);
+    }
+
+    const timestamp = new Date().toISOString();
+    const bodyHash = crypto.createHash(algorithm).update(request.body ?? '').digest('hex');
+    const stringToSign = [request.method.toUpperCase(), `${request.url.pathname}${request.url.search}`, timestamp, bodyHash].join('\n');
+    const signature = crypto.createHmac(algorithm, String(secret)).update(stringToSign).digest(encoding);
+
+    request.headers[timestampHeader] = timestamp;
+    request.headers[header] = signature;
+    if (keyId !== undefined) {
+      request.headers[keyIdHeader] = String(keyId);
+    }
+  }
+}
@@ -0,0 +1,117 @@
+import { BaseAuthProvider, AuthRequest } from './base-auth-provider';
+import { fetch } from 'undici';
+
+interface CachedToken {
+  accessToken: string;
+  tokenType: string;
+  refreshToken?: string;
+  expiresAt?: number;
+}
+
+/**
+ * OAuth2AuthProvider class that obtains an access token with the client credentials grant.
+ *
+ * The token is cached until `refreshMargin` seconds (default 30) before it expires. An expired token is
+ * renewed with the refresh token when the server issued one, otherwise a new token is requested.
+ * `clientAuth: basic` sends the client credentials in an Authorization header instead of the form body.
+ *
+ * example profile:
+ * ```yaml
+ * service:
+ *   type: oauth2
+ *   tokenUrl: https://auth.example.com/oauth/token
+ *   clientId: integration-tests
+ *   clientSecret: "{secrets.oauthClientSecret}"
+ *   scope: orders:read orders:write
+ *   audience: https://api.example.com
+ * ```
+ */
+export class OAuth2AuthProvider extends BaseAuthProvider {
+  private token: CachedToken | null = null;
+  private pending: Promise<CachedToken> | null = null;
+
+  public async apply(request: AuthRequest): Promise<void> {
+    this.require('tokenUrl', 'clientId');
+    const token = await this.getToken(request);
+    request.headers['Authorization'] = `${token.tokenType} ${token.accessToken}`;
+  }
+
+  public invalidate(): boolean {
+    const cached = this.token !== null;
+    this.token = null;
+    return cached;
+  }
+
+  private async getToken(request: AuthRequest): Promise<CachedToken> {
+    const margin = Number(this.options.refreshMargin ?? 30) * 1000;
+    if (this.token && (this.token.expiresAt === undefined || Date.now() < this.token.expiresAt - margin)) {
+      return this.token;
+    }
+
+    // Steps running in parallel share a single token request
+    if (!this.pending) {
+      const refreshToken = this.token?.refreshToken;
+      this.pending = this.requestToken(request, refreshToken)
+        .catch(error => {
+          if (!refreshToken) throw error;
+          // The refresh token may have been revoked, so fall back to a new grant
+          return this.requestToken(request);
+        })
+        .finally(() => {
+          this.pending = null;
+        });
+    }
+    this.token = await this.pending;
+    return this.token;
+  }
+
+  private async requestToken(request: AuthRequest, refreshToken?: string): Promise<CachedToken> {
+    const { tokenUrl, clientId, clientSecret, scope, audience, clientAuth = 'body' } = this.options;
+    const form = new URLSearchParams();
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'Accept': 'application/json'
+    };
+
+    if (refreshToken) {
+      form.set('grant_type', 'refresh_token');
+      form.set('refresh_token', refreshToken);
+    } else {
+      form.set('grant_type', 'client_credentials');
+      if (scope) form.set('scope', Array.isArray(scope) ? scope.join(' ') : String(scope));
+      if (audience) form.set('audience', String(audience));
+    }
+
+    if (clientAuth === 'basic') {
+      const credentials = `${encodeURIComponent(clientId)}:${encodeURIComponent(clientSecret ?? '')}`;
+      headers['Authorization'] = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    } else {
+      form.set('client_id', String(clientId));
+      if (clientSecret !== undefined) form.set('client_secret', String(clientSecret));
+    }
+
+    const response = await fetch(tokenUrl, { method: 'POST', headers, body: form.toString(), dispatcher: request.dispatcher });
+    const text = await response.text();
+    if (!response.ok) {
+      throw new Error(`OAuth2 token request to ${tokenUrl} failed with status ${response.status}: ${text}`);
+    }
+
+    let body: any;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      throw new Error(`OAuth2 token response from ${tokenUrl} is not JSON: ${text}`);
+    }
+    if (!body.access_token) {
+      throw new Error(`OAuth2 token response from ${tokenUrl} has no access_token`);
+    }
+
+    return {
+      accessToken: body.access_token,
+      // Servers often return "bearer" in lower case, which some APIs reject
+      tokenType: !body.token_type || /^bearer$/i.test(body.token_type) ? 'Bearer' : body.token_type,
+      refreshToken: body.refresh_token || refreshToken,
+      expiresAt: body.expires_in !== undefined ? Date.now() + Number(body.expires_in) * 1000 : undefined
+    };
+  }
+}
@@ -0,0 +1,115 @@
+import { StepDefinition } from './actions/base-action';
+import * as fs from 'fs';
+import * as YAML from 'yamljs';
+
+export interface CompositeInput {
+  description?: string;
+  required?: boolean;
+  default?: any;
+}
+
+export interface CompositeDefinition {
+  kind: string;
+  name: string;
+  description?: string;
+  inputs?: Record<string, CompositeInput>;
+  outputs?: Record<string, any>;
+  vars?: Record<string, any>;
+  step: StepDefinition[];
+}
+
+/**
+ * CompositeDefinitions class that loads composite action files, the reusable step sequences run by
+ * steps of `kind: Composite`.
+ *
+ * example composite file:
+ * ```yaml
+ * kind: Composite/v0
+ * name: Log in
+ * inputs:
+ *   username:
+ *     description: User to log in as
+ *     required: true
+ *   password:
+ *     default: "{secrets.apiToken}"
+ * outputs:
+ *   token: "{login-call.output.response.body.token}"
+ * step:
+ * - name: Request a token
+ *   id: login-call
+ *   kind: RestApiCall
+ *   params:
+ *     url: "{config.baseUrl}/login"
+ *     method: POST
+ *     body:
+ *       username: "{inputs.username}"
+ *       password: "{inputs.password}"
+ * ```
+ *
+ * Files are parsed once per run. Steps without an id get `#<index>` like test case steps.
+ */
+export class CompositeDefinitions {
+  private static definitions: Map<string, CompositeDefinition> = new Map();
+
+  public static load(filePath: string): CompositeDefinition {
+    let definition = CompositeDefinitions.definitions.get(filePath);
+    if (!definition) {
+      if (!fs.existsSync(filePath)) {
+        throw new Error(`Composite file not found: ${filePath}`);
+      }
+      definition = YAML.parse(fs.readFileSync(filePath, 'utf8')) as CompositeDefinition;
+      CompositeDefinitions.validate(definition, filePath);
+      definition.step.forEach((step, index) => {
+        if (!step.id) step.id = `#${index + 1}`;
+      });
+      CompositeDefinitions.definitions.set(filePath, definition);
+    }
+    return definition;
+  }
+
+  /**
+   * Checks the `with` values of a calling step against the declared inputs. Inputs that are not
+   * given are taken from `defaults`, the already resolved default values.
+   */
+  public static bindInputs(definition: CompositeDefinition, values: Record<string, any>, defaults: Record<string, any>): Record<string, any> {
+    const declared = definition.inputs || {};
+    const unknown = Object.keys(values).filter(name => !(name in declared));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown input(s) ${unknown.join(', ')} for composite '${definition.name}'. Declared inputs: ${Object.keys(declared).join(', ') || '(none)'}`);
+    }
+
+    const inputs: Record<string, any> = {};
+    const missing: string[] = [];
+    for (const [name, input] of Object.entries(declared)) {
+      if (values[name] !== undefined) {
+        inputs[name] = values[name];
+      } else if (name in defaults) {
+        inputs[name] = defaults[name];
+      } else if (input?.required) {
+        missing.push(name);
+      }
+    }
+    if (missing.length > 0) {
+      throw new Error(`Missing required input(s) ${missing.join(', ')} for composite '${definition.name}'`);
+    }
+    return inputs;
+  }
+
+  private static validate(definition: CompositeDefinition, filePath: string): void {
+    if (!definition || typeof definition !== 'object') {
+      throw new Error(`Composite file ${filePath} is empty or not a YAML object`);
+    }
+    if (definition.kind !== 'Composite/v0') {
+      throw new Error(`Composite file ${filePath} must have kind: Composite/v0, got '${definition.kind}'`);
+    }
+    if (!Array.isArray(definition.step) || definition.step.length === 0) {
+      throw new Error(`Composite file ${filePath} must have a non-empty step list`);
+    }
+    if (definition.inputs !== undefined && (typeof definition.inputs !== 'object' || Array.isArray(definition.inputs))) {
+      throw new Error(`inputs of composite file ${filePath} must be a map of input names`);
+    }
+    if (definition.outputs !== undefined && (typeof definition.outputs !== 'object' || Array.isArray(definition.outputs))) {
+      throw new Error(`outputs of composite file ${filePath} must be a map of output names`);
+    }
+  }
+}
@@ -0,0 +1,453 @@
+export type PathSegment = string | number;
+
+export interface ExpressionScope {
+  testSuccess: boolean;
+  lookup(path: PathSegment[]): any;
+}
+
+type ExpressionNode =
+  | { type: 'literal'; value: any }
+  | { type: 'path'; segments: PathSegment[] }
+  | { type: 'call'; name: string; args: ExpressionNode[] }
+  | { type: 'unary'; operator: '!'; operand: ExpressionNode }
+  | { type: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode };
+
+interface Token {
+  type: 'number' | 'string' | 'identifier' | 'operator' | 'punctuation' | 'end';
+  value: string;
+  position: number;
+}
+
+interface FunctionDefinition {
+  arity: number;
+  status?: boolean;
+  call(args: any[], scope: ExpressionScope): any;
+}
+
+const FUNCTIONS: Record<string, FunctionDefinition> = {
+  always: { arity: 0, status: true, call: () => true },
+  success: { arity: 0, status: true, call: (_args, scope) => scope.testSuccess },
+  failure: { arity: 0, status: true, call: (_args, scope) => !scope.testSuccess },
+  contains: {
+    arity: 2,
+    call: ([haystack, needle]) => {
+      if (Array.isArray(haystack)) return haystack.some(item => looseEquals(item, needle));
+      if (haystack === undefined || haystack === null) return false;
+      return String(haystack).includes(String(needle));
+    }
+  },
+  startswith: {
+    arity: 2,
+    call: ([value, prefix]) => value !== undefined && value !== null && String(value).startsWith(String(prefix))
+  },
+  endswith: {
+    arity: 2,
+    call: ([value, suffix]) => value !== undefined && value !== null && String(value).endsWith(String(suffix))
+  },
+  length: {
+    arity: 1,
+    call: ([value]) => {
+      if (Array.isArray(value) || typeof value === 'string') return value.length;
+      if (value && typeof value === 'object') return Object.keys(value).length;
+      return 0;
+    }
+  },
+  tojson: { arity: 1, call: ([value]) => JSON.stringify(value) }
+};
+
+const OPERATORS = ['==', '!=', '<=', '>=', '&&', '||', '<', '>', '!'];
+
+function looseEquals(left: any, right: any): boolean {
+  if (left === undefined || left === null || right === undefined || right === null) {
+    return (left === undefined || left === null) && (right === undefined || right === null);
+  }
+  if (typeof left === typeof right) {
+    return left === right;
+  }
+  // Config and environment values arrive as strings, so compare them by their textual form
+  if (typeof left === 'number' || typeof right === 'number') {
+    return Number(left) === Number(right);
+  }
+  return String(left) === String(right);
+}
+
+function compare(left: any, right: any): number | undefined {
+  if (typeof left === 'string' && typeof right === 'string') {
+    return left < right ? -1 : left > right ? 1 : 0;
+  }
+  const leftNumber = typeof left === 'number' ? left : Number(left);
+  const rightNumber = typeof right === 'number' ? right : Number(right);
+  if (left === null || right === null || left === undefined || right === undefined) return undefined;
+  if (Number.isNaN(leftNumber) || Number.isNaN(rightNumber)) return undefined;
+  return leftNumber - rightNumber;
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < source.length) {
+    const char = source[position];
+
+    if (/\s/.test(char)) {
+      position++;
+      continue;
+    }
+
+    if (char === '\'' || char === '"') {
+      let value = '';
+      let end = position + 1;
+      while (end < source.length && source[end] !== char) {
+        if (source[end] === '\\' && end + 1 < source.length) {
+          end++;
+        }
+        value += source[end];
+        end++;
+      }
+      if (end >= source.length) {
+        throw new Error(`unterminated string starting at position ${position}`);
+      }
+      tokens.push({ type: 'string', value, position });
+      position = end + 1;
+      continue;
+    }
+
+    const numberMatch = /^\d+(\.\d+)?/.exec(source.slice(position));
+    if (numberMatch) {
+      tokens.push({ type: 'number', value: numberMatch[0], position });
+      position += numberMatch[0].length;
+      continue;
+    }
+
+    // Identifiers may contain dashes so that step ids like `api-call` can be written directly
+    const identifierMatch = /^[A-Za-z_][A-Za-z0-9_-]*/.exec(source.slice(position));
+    if (identifierMatch) {
+      tokens.push({ type: 'identifier', value: identifierMatch[0], position });
+      position += identifierMatch[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, position));
+    if (operator) {
+      tokens.push({ type: 'operator', value: operator, position });
+      position += operator.length;
+      continue;
+    }
+
+    if ('()[].,'.includes(char)) {
+      tokens.push({ type: 'punctuation', value: char, position });
+      position++;
+      continue;
+    }
+
+    throw new Error(`unexpected character '${char}' at position ${position}`);
+  }
+
+  tokens.push({ type: 'end', value: '', position });
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  public parse(): ExpressionNode {
+    const node = this.parseOr();
+    const token = this.peek();
+    if (token.type !== 'end') {
+      throw new Error(`unexpected '${token.value}' at position ${token.position}`);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private match(type: Token['type'], value?: string): boolean {
+    const token = this.peek();
+    if (token.type === type && (value === undefined || token.value === value)) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(type: Token['type'], value: string): void {
+    const token = this.peek();
+    if (!this.match(type, value)) {
+      const found = token.type === 'end' ? 'end of expression' : `'${token.value}'`;
+      throw new Error(`expected '${value}' but found ${found} at position ${token.position}`);
+    }
+  }
+
+  private parseOr(): ExpressionNode {
+    let left = this.parseAnd();
+    while (this.match('operator', '||')) {
+      left = { type: 'binary', operator: '||', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): ExpressionNode {
+    let left = this.parseEquality();
+    while (this.match('operator', '&&')) {
+      left = { type: 'binary', operator: '&&', left, right: this.parseEquality() };
+    }
+    return left;
+  }
+
+  private parseEquality(): ExpressionNode {
+    let left = this.parseComparison();
+    for (;;) {
+      const token = this.peek();
+      if (token.type === 'operator' && (token.value === '==' || token.value === '!=')) {
+        this.next();
+        left = { type: 'binary', operator: token.value, left, right: this.parseComparison() };
+      } else {
+        return left;
+      }
+    }
+  }
+
+  private parseComparison(): ExpressionNode {
+    let left = this.parseUnary();
+    for (;;) {
+      const token = this.peek();
+      if (token.type === 'operator' && ['<', '<=', '>', '>='].includes(token.value)) {
+        this.next();
+        left = { type: 'binary', operator: token.value, left, right: this.parseUnary() };
+      } else {
+        return left;
+      }
+    }
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.match('operator', '!')) {
+      return { type: 'unary', operator: '!', operand: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+        return { type: 'literal', value: parseFloat(token.value) };
+      case 'string':
+        return { type: 'literal', value: token.value };
+      case 'punctuation':
+        if (token.value === '(') {
+          const node = this.parseOr();
+          this.expect('punctuation', ')');
+          return node;
+        }
+        break;
+      case 'identifier':
+        if (token.value === 'true') return { type: 'literal', value: true };
+        if (token.value === 'false') return { type: 'literal', value: false };
+        if (token.value === 'null') return { type: 'literal', value: null };
+        if (this.peek().type === 'punctuation' && this.peek().value === '(') {
+          return this.parseCall(token);
+        }
+        return this.parsePath(token);
+    }
+
+    const found = token.type === 'end' ? 'end of expression' : `'${token.value}'`;
+    throw new Error(`unexpected ${found} at position ${token.position}`);
+  }
+
+  private parseCall(nameToken: Token): ExpressionNode {
+    const name = nameToken.value.toLowerCase();
+    const definition = FUNCTIONS[name];
+    if (!definition) {
+      throw new Error(`unknown function '${nameToken.value}()' at position ${nameToken.position}`);
+    }
+
+    this.expect('punctuation', '(');
+    const args: ExpressionNode[] = [];
+    if (!this.match('punctuation', ')')) {
+      do {
+        args.push(this.parseOr());
+      } while (this.match('punctuation', ','));
+      this.expect('punctuation', ')');
+    }
+
+    if (args.length !== definition.arity) {
+      throw new Error(`function '${nameToken.value}()' expects ${definition.arity} argument(s), got ${args.length}`);
+    }
+    return { type: 'call', name, args };
+  }
+
+  private parsePath(rootToken: Token): ExpressionNode {
+    const segments: PathSegment[] = [rootToken.value];
+    for (;;) {
+      if (this.match('punctuation', '.')) {
+        const token = this.next();
+        if (token.type !== 'identifier' && token.type !== 'number') {
+          throw new Error(`expected property name at position ${token.position}`);
+        }
+        segments.push(token.value);
+      } else if (this.match('punctuation', '[')) {
+        const token = this.next();
+        if (token.type === 'number') {
+          segments.push(parseInt(token.value, 10));
+        } else if (token.type === 'string') {
+          segments.push(token.value);
+        } else {
+          throw new Error(`expected index or quoted key at position ${token.position}`);
+        }
+        this.expect('punctuation', ']');
+      } else {
+        return { type: 'path', segments };
+      }
+    }
+  }
+}
+
+/**
+ * Expression class that parses and evaluates step `if` conditions.
+ *
+ * Expressions are parsed into a small syntax tree and evaluated without `eval`,
+ * so a test case can only read values exposed through the ExpressionScope.
+ *
+ * Supported syntax:
+ * - literals: `'text'`, `"text"`, `42`, `1.5`, `true`, `false`, `null`
+ * - paths: `steps.api-call.output.response.status`, `steps['#1'].success`, `env.FEATURE_X`
+ * - operators: `==`, `!=`, `<`, `<=`, `>`, `>=`, `&&`, `||`, `!`, `( )`
+ * - status functions: `always()`, `success()`, `failure()`
+ * - helpers: `contains(a, b)`, `startsWith(a, b)`, `endsWith(a, b)`, `length(a)`, `toJSON(a)`
+ *
+ * An expression that does not call a status function is evaluated as `success() && (<expression>)`.
+ * A step skipped by its own condition has `skipped` set to true and counts as successful.
+ *
+ * example step definition:
+ * ```yaml
+ * - name: Cleanup when the API call failed
+ *   kind: PostgreSQL
+ *   if: always() && !steps.api-call.success
+ *   params:
+ *     query: DELETE FROM users WHERE email = $1
+ *     values: ['testuser@example.com']
+ * ```
+ */
+export class Expression {
+  public readonly source: string;
+  private root: ExpressionNode;
+
+  private constructor(source: string, root: ExpressionNode) {
+    this.source = source;
+    this.root = root;
+  }
+
+  public static parse(source: string): Expression {
+    try {
+      return new Expression(source, new Parser(tokenize(source)).parse());
+    } catch (error) {
+      throw new Error(`Invalid expression '${source}': ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Returns true when the expression calls always(), success() or failure().
+   */
+  public usesStatusFunction(): boolean {
+    const visit = (node: ExpressionNode): boolean => {
+      switch (node.type) {
+        case 'call':
+          return !!FUNCTIONS[node.name].status || node.args.some(visit);
+        case 'unary':
+          return visit(node.operand);
+        case 'binary':
+          return visit(node.left) || visit(node.right);
+        default:
+          return false;
+      }
+    };
+    return visit(this.root);
+  }
+
+  /**
+   * Returns every path referenced by the expression, e.g. [['steps', 'api-call', 'success']].
+   */
+  public paths(): PathSegment[][] {
+    const paths: PathSegment[][] = [];
+    const visit = (node: ExpressionNode): void => {
+      switch (node.type) {
+        case 'path':
+          paths.push(node.segments);
+          break;
+        case 'call':
+          node.args.forEach(visit);
+          break;
+        case 'unary':
+          visit(node.operand);
+          break;
+        case 'binary':
+          visit(node.left);
+          visit(node.right);
+          break;
+      }
+    };
+    visit(this.root);
+    return paths;
+  }
+
+  public evaluate(scope: ExpressionScope): any {
+    return this.evaluateNode(this.root, scope);
+  }
+
+  /**
+   * Evaluates the expression as a step condition, applying the implicit success() check.
+   */
+  public evaluateCondition(scope: ExpressionScope): boolean {
+    const result = !!this.evaluate(scope);
+    return this.usesStatusFunction() ? result : scope.testSuccess && result;
+  }
+
+  private evaluateNode(node: ExpressionNode, scope: ExpressionScope): any {
+    switch (node.type) {
+      case 'literal':
+        return node.value;
+      case 'path':
+        return scope.lookup(node.segments);
+      case 'call':
+        return FUNCTIONS[node.name].call(node.args.map(arg => this.evaluateNode(arg, scope)), scope);
+      case 'unary':
+        return !this.evaluateNode(node.operand, scope);
+      case 'binary':
+        return this.evaluateBinary(node.operator, node.left, node.right, scope);
+    }
+  }
+
+  private evaluateBinary(operator: string, leftNode: ExpressionNode, rightNode: ExpressionNode, scope: ExpressionScope): any {
+    const left = this.evaluateNode(leftNode, scope);
+
+    // Short-circuit so that guards like `steps.a.success && steps.a.output.id == 1` are safe
+    if (operator === '&&') return left ? this.evaluateNode(rightNode, scope) : left;
+    if (operator === '||') return left ? left : this.evaluateNode(rightNode, scope);
+
+    const right = this.evaluateNode(rightNode, scope);
+    switch (operator) {
+      case '==':
+        return looseEquals(left, right);
+      case '!=':
+        return !looseEquals(left, right);
+      default: {
+        const result = compare(left, right);
+        if (result === undefined) return false;
+        if (operator === '<') return result < 0;
+        if (operator === '<=') return result <= 0;
+        if (operator === '>') return result > 0;
+        return result >= 0;
+      }
+    }
+  }
+}
@@ -0,0 +1,57 @@
+import { v4 as uuidv4 } from 'uuid';
+
+const RANDOM_STRING_CHARACTERS = 'abcdefghijklmnopqrstuvwxyz0123456789';
+
+/**
+ * Built-in value generators that can be called from step templates, e.g. `{uuid()}` or `{randomInt(1, 100)}`.
+ */
+export const GENERATORS: Record<string, (...args: any[]) => any> = {
+  uuid: () => uuidv4(),
+  now: () => new Date().toISOString(),
+  randomInt: (min: number = 0, max: number = Number.MAX_SAFE_INTEGER) => {
+    const low = Math.ceil(Number(min));
+    const high = Math.floor(Number(max));
+    if (Number.isNaN(low) || Number.isNaN(high) || low > high) {
+      throw new Error(`randomInt() requires min <= max, got ${min}, ${max}`);
+    }
+    return low + Math.floor(Math.random() * (high - low + 1));
+  },
+  randomString: (length: number = 8) => {
+    const size = Number(length);
+    if (!Number.isInteger(size) || size < 0) {
+      throw new Error(`randomString() requires a non-negative integer length, got ${length}`);
+    }
+    let result = '';
+    for (let i = 0; i < size; i++) {
+      result += RANDOM_STRING_CHARACTERS[Math.floor(Math.random() * RANDOM_STRING_CHARACTERS.length)];
+    }
+    return result;
+  }
+};
+
+const CALL_PATTERN = /^([A-Za-z_]\w*)\((.*)\)$/;
+
+/**
+ * Parses a generator call such as `randomInt(1, 10)`. Returns null when the text is not a call
+ * to a known generator. Arguments may be numbers, booleans or quoted strings.
+ */
+export function parseGeneratorCall(text: string): { name: string; args: any[] } | null {
+  const match = CALL_PATTERN.exec(text.trim());
+  if (!match || !(match[1] in GENERATORS)) {
+    return null;
+  }
+
+  const argsText = match[2].trim();
+  const args = argsText === '' ? [] : argsText.split(',').map(arg => {
+    const value = arg.trim();
+    if (/^(['"]).*\1$/.test(value)) return value.slice(1, -1);
+    if (value === 'true' || value === 'false') return value === 'true';
+    const number = Number(value);
+    if (value === '' || Number.isNaN(number)) {
+      throw new Error(`Invalid argument '${value}' in ${match[1]}()`);
+    }
+    return number;
+  });
+
+  return { name: match[1], args };
+}
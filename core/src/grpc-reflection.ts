@@ -0,0 +1,144 @@
+import * as grpc from '@grpc/grpc-js';
+import * as protoLoader from '@grpc/proto-loader';
+import * as protobuf from 'protobufjs';
+import { FileDescriptorProto, IFileDescriptorProto } from 'protobufjs/ext/descriptor';
+
+// Messages of grpc/reflection/v1/reflection.proto that the client uses; v1alpha has the same wire format
+const REFLECTION_ROOT = protobuf.Root.fromJSON({
+  nested: {
+    ServerReflectionRequest: {
+      fields: {
+        host: { type: 'string', id: 1 },
+        fileByFilename: { type: 'string', id: 3 },
+        fileContainingSymbol: { type: 'string', id: 4 }
+      }
+    },
+    ServerReflectionResponse: {
+      fields: {
+        fileDescriptorResponse: { type: 'FileDescriptorResponse', id: 4 },
+        errorResponse: { type: 'ErrorResponse', id: 7 }
+      }
+    },
+    FileDescriptorResponse: {
+      fields: {
+        fileDescriptorProto: { rule: 'repeated', type: 'bytes', id: 1 }
+      }
+    },
+    ErrorResponse: {
+      fields: {
+        errorCode: { type: 'int32', id: 1 },
+        errorMessage: { type: 'string', id: 2 }
+      }
+    }
+  }
+});
+const REQUEST_TYPE = REFLECTION_ROOT.lookupType('ServerReflectionRequest');
+const RESPONSE_TYPE = REFLECTION_ROOT.lookupType('ServerReflectionResponse');
+const REFLECTION_SERVICES = ['grpc.reflection.v1.ServerReflection', 'grpc.reflection.v1alpha.ServerReflection'];
+
+/**
+ * GrpcReflection class that loads service definitions from a server through gRPC server reflection.
+ *
+ * The file that defines the requested service is fetched together with the files it imports, and
+ * loaded as if it had been read from `.proto` files. Definitions are cached per address and service
+ * for the whole run.
+ */
+export class GrpcReflection {
+  private static definitions: Map<string, Promise<protoLoader.PackageDefinition>> = new Map();
+
+  public static loadPackageDefinition(
+    address: string,
+    credentials: grpc.ChannelCredentials,
+    service: string,
+    options: protoLoader.Options
+  ): Promise<protoLoader.PackageDefinition> {
+    const key = `${address} ${service}`;
+    let definition = GrpcReflection.definitions.get(key);
+    if (!definition) {
+      definition = GrpcReflection.fetchFiles(address, credentials, service).then(files => {
+        // A FileDescriptorSet is a list of FileDescriptorProto messages in field 1
+        const writer = protobuf.Writer.create();
+        for (const file of files) {
+          writer.uint32((1 << 3) | 2).bytes(file);
+        }
+        return protoLoader.loadFileDescriptorSetFromBuffer(Buffer.from(writer.finish()), options);
+      });
+      // A failed lookup is not cached, so a later step can retry once the server is up
+      definition.catch(() => GrpcReflection.definitions.delete(key));
+      GrpcReflection.definitions.set(key, definition);
+    }
+    return definition;
+  }
+
+  private static async fetchFiles(address: string, credentials: grpc.ChannelCredentials, service: string): Promise<Uint8Array[]> {
+    const client = new grpc.Client(address, credentials);
+    try {
+      for (const [index, reflectionService] of REFLECTION_SERVICES.entries()) {
+        try {
+          return await GrpcReflection.request(client, reflectionService, service);
+        } catch (error) {
+          // Older servers only implement v1alpha
+          const unimplemented = (error as grpc.ServiceError).code === grpc.status.UNIMPLEMENTED;
+          if (!unimplemented || index === REFLECTION_SERVICES.length - 1) {
+            throw new Error(`Server reflection failed for ${service} at ${address}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+          }
+        }
+      }
+      return [];
+    } finally {
+      client.close();
+    }
+  }
+
+  private static request(client: grpc.Client, reflectionService: string, service: string): Promise<Uint8Array[]> {
+    return new Promise((resolve, reject) => {
+      const call = client.makeBidiStreamRequest(
+        `/${reflectionService}/ServerReflectionInfo`,
+        (value: any) => Buffer.from(REQUEST_TYPE.encode(REQUEST_TYPE.fromObject(value)).finish()),
+        (buffer: Buffer) => RESPONSE_TYPE.toObject(RESPONSE_TYPE.decode(buffer)),
+        new grpc.Metadata(),
+        { deadline: Date.now() + 10000 }
+      );
+
+      const files: Map<string, { bytes: Uint8Array; descriptor: IFileDescriptorProto }> = new Map();
+      const requested: Set<string> = new Set();
+      let pending = 0;
+      const send = (request: Record<string, string>) => {
+        pending++;
+        call.write(request);
+      };
+
+      call.on('data', (response: any) => {
+        pending--;
+        if (response.errorResponse) {
+          call.cancel();
+          reject(new Error(response.errorResponse.errorMessage || `error code ${response.errorResponse.errorCode}`));
+          return;
+        }
+
+        for (const bytes of response.fileDescriptorResponse?.fileDescriptorProto || []) {
+          const descriptor = FileDescriptorProto.decode(bytes) as unknown as IFileDescriptorProto;
+          if (descriptor.name && !files.has(descriptor.name)) {
+            files.set(descriptor.name, { bytes, descriptor });
+          }
+        }
+        // Servers usually send the imported files along, otherwise they are requested one by one
+        for (const { descriptor } of Array.from(files.values())) {
+          for (const dependency of descriptor.dependency || []) {
+            if (!files.has(dependency) && !requested.has(dependency)) {
+              requested.add(dependency);
+              send({ fileByFilename: dependency });
+            }
+          }
+        }
+        if (pending === 0) {
+          call.end();
+        }
+      });
+      call.on('error', reject);
+      call.on('end', () => resolve(Array.from(files.values()).map(file => file.bytes)));
+
+      send({ fileContainingSymbol: service });
+    });
+  }
+}
@@ -0,0 +1,24 @@
+import { JSONPath } from 'jsonpath-plus';
+
+/**
+ * JsonPath class that evaluates JSONPath queries such as `$.items[?(@.active)].id`.
+ *
+ * A definite path (no wildcards, filters, recursive descent, unions or slices) returns the single
+ * matched value, or undefined when nothing matches. Any other path returns the array of all matches.
+ * Filter expressions are evaluated by jsonpath-plus in its sandboxed "safe" mode.
+ */
+export class JsonPath {
+  public static isDefinite(path: string): boolean {
+    return !/\*|\.\.|\?\(|,|:/.test(path);
+  }
+
+  public static query(value: any, path: string): any {
+    const expression = path.trim();
+    if (!expression.startsWith('$')) {
+      throw new Error(`Invalid JSONPath '${path}': paths must start with '$'`);
+    }
+
+    const matches: any[] = JSONPath({ path: expression, json: value, wrap: true, eval: 'safe' }) || [];
+    return JsonPath.isDefinite(expression) ? matches[0] : matches;
+  }
+}
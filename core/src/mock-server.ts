@@ -0,0 +1,309 @@
+import { ActionContext } from './actions/base-action';
+import { Assertion, AssertionFailure } from './assertion';
+import { VariableResolver } from './variable-resolver';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+
+export interface RequestMatcher {
+  method?: string;
+  // A pattern such as /users/:id or /files/*, or a matcher such as { $regex: '^/users' }
+  path?: any;
+  query?: any;
+  headers?: any;
+  body?: any;
+}
+
+export interface MockResponse {
+  status?: number;
+  headers?: Record<string, any>;
+  body?: any;
+  // Milliseconds to wait before responding
+  delay?: number;
+}
+
+export interface MockRoute extends RequestMatcher {
+  id?: string;
+  response?: MockResponse;
+}
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  query: Record<string, string | string[]>;
+  headers: Record<string, string | string[] | undefined>;
+  body: any;
+  // Values of the :name segments of the matched route path
+  params: Record<string, string>;
+  // Id of the route that answered, undefined when no route matched
+  route?: string;
+  receivedAt: string;
+}
+
+const REFERENCE_PATTERN = /\{([^{}]+)\}/g;
+const WHOLE_REFERENCE_PATTERN = /^\{([^{}]+)\}$/;
+
+/**
+ * MockServer class that runs an in-process HTTP server answering with stub routes.
+ *
+ * A request is answered by the first route whose method, path, query, headers and body match;
+ * query, headers (lower-case names) and body are compared as in responseValidation and may use
+ * matchers. Unmatched requests get a 404. Every request is recorded, for MockServerVerify.
+ *
+ * Strings in a route response may reference the request as `{request.params.id}`,
+ * `{request.query.page}`, `{request.headers.x-request-id}` or `{request.body.name}`.
+ * A string that is exactly one reference keeps the type of the referenced value.
+ *
+ * Mock servers belong to the test case that started them and are stopped when it ends.
+ */
+export class MockServer {
+  public readonly name: string;
+  public readonly requests: RecordedRequest[] = [];
+  private routes: MockRoute[];
+  private server: http.Server;
+  private address?: AddressInfo;
+
+  constructor(name: string, routes: MockRoute[]) {
+    this.name = name;
+    this.routes = routes;
+    this.server = http.createServer((request, response) => {
+      this.handle(request, response).catch(error => {
+        if (!response.headersSent) {
+          response.writeHead(500, { 'content-type': 'application/json' });
+        }
+        response.end(JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }));
+      });
+    });
+  }
+
+  public get url(): string {
+    if (!this.address) {
+      throw new Error(`Mock server '${this.name}' is not running`);
+    }
+    const host = ['0.0.0.0', '::'].includes(this.address.address) ? 'localhost' : this.address.address;
+    return `http://${host.includes(':') ? `[${host}]` : host}:${this.address.port}`;
+  }
+
+  public get port(): number | undefined {
+    return this.address?.port;
+  }
+
+  /**
+   * Starts listening; port 0 picks a free port.
+   */
+  public async start(port: number = 0, host: string = '127.0.0.1'): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(port, host, () => {
+        this.server.off('error', reject);
+        resolve();
+      });
+    });
+    this.address = this.server.address() as AddressInfo;
+  }
+
+  public async stop(): Promise<void> {
+    if (!this.server.listening) return;
+    await new Promise<void>(resolve => {
+      this.server.close(() => resolve());
+      // Keep-alive connections of the client would otherwise hold the server open
+      this.server.closeAllConnections();
+    });
+  }
+
+  /**
+   * Returns the recorded requests that match, in the order they were received.
+   */
+  public findRequests(matcher: RequestMatcher): RecordedRequest[] {
+    return this.requests.filter(request => MockServer.match(request, matcher).failures.length === 0);
+  }
+
+  /**
+   * Returns the mock server that the test case started under the name.
+   */
+  public static find(context: ActionContext | undefined, name: string): MockServer {
+    const server = context?.session?.get(MockServer.sessionKey(name));
+    if (!server) {
+      throw new Error(`Mock server '${name}' is not running; start it with MockServerStart`);
+    }
+    return server;
+  }
+
+  public static sessionKey(name: string): string {
+    return `mockserver.${name}`;
+  }
+
+  /**
+   * Matches a request against a route or verification; params holds the values of :name path segments.
+   */
+  public static match(request: RecordedRequest, matcher: RequestMatcher): { failures: AssertionFailure[]; params: Record<string, string> } {
+    const failures: AssertionFailure[] = [];
+    let params: Record<string, string> = {};
+
+    if (matcher.method && matcher.method !== '*' && matcher.method.toUpperCase() !== request.method) {
+      failures.push({ path: '$.method', message: `Expected method ${matcher.method.toUpperCase()}, got ${request.method}`, expected: matcher.method, actual: request.method });
+    }
+
+    if (typeof matcher.path === 'string') {
+      const pathParams = MockServer.matchPath(matcher.path, request.path);
+      if (pathParams) {
+        params = pathParams;
+      } else {
+        failures.push({ path: '$.path', message: `Expected path ${matcher.path}, got ${request.path}`, expected: matcher.path, actual: request.path });
+      }
+    } else if (matcher.path !== undefined) {
+      failures.push(...Assertion.match(request.path, matcher.path, '$.path'));
+    }
+
+    if (matcher.query !== undefined) {
+      failures.push(...Assertion.match(request.query, matcher.query, '$.query'));
+    }
+    if (matcher.headers !== undefined) {
+      const headers: Record<string, any> = {};
+      for (const [name, value] of Object.entries(matcher.headers)) {
+        headers[name.toLowerCase()] = value;
+      }
+      failures.push(...Assertion.match(request.headers, headers, '$.headers'));
+    }
+    if (matcher.body !== undefined) {
+      failures.push(...Assertion.match(request.body, matcher.body, '$.body'));
+    }
+
+    return { failures, params };
+  }
+
+  // Matches /users/:id against /users/42; `*` matches the rest of the path
+  private static matchPath(pattern: string, path: string): Record<string, string> | null {
+    const names: string[] = [];
+    const source = pattern
+      .split(/(:\w+|\*)/)
+      .map(part => {
+        if (part === '*') {
+          names.push('*');
+          return '(.*)';
+        }
+        if (part.startsWith(':')) {
+          names.push(part.slice(1));
+          return '([^/]+)';
+        }
+        return part.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+      })
+      .join('');
+    const match = new RegExp(`^${source}/?$`).exec(path);
+    if (!match) return null;
+
+    const params: Record<string, string> = {};
+    names.forEach((name, index) => {
+      params[name] = decodeURIComponent(match[index + 1]);
+    });
+    return params;
+  }
+
+  private async handle(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+    const url = new URL(request.url || '/', 'http://localhost');
+    const query: Record<string, string | string[]> = {};
+    for (const key of new Set(url.searchParams.keys())) {
+      const values = url.searchParams.getAll(key);
+      query[key] = values.length === 1 ? values[0] : values;
+    }
+
+    const recorded: RecordedRequest = {
+      method: (request.method || 'GET').toUpperCase(),
+      path: url.pathname,
+      query,
+      headers: { ...request.headers },
+      body: MockServer.parseBody(await MockServer.readBody(request), request.headers['content-type']),
+      params: {},
+      receivedAt: new Date().toISOString()
+    };
+    this.requests.push(recorded);
+
+    const route = this.routes.find(candidate => {
+      const result = MockServer.match(recorded, candidate);
+      if (result.failures.length > 0) return false;
+      recorded.params = result.params;
+      return true;
+    });
+
+    if (!route) {
+      response.writeHead(404, { 'content-type': 'application/json' });
+      response.end(JSON.stringify({ error: `No mock route matches ${recorded.method} ${recorded.path}` }));
+      return;
+    }
+    recorded.route = route.id || `${(route.method || '*').toUpperCase()} ${route.path || '*'}`;
+
+    const mockResponse: MockResponse = MockServer.render(route.response || {}, { request: recorded });
+    if (mockResponse.delay) {
+      await new Promise(resolve => setTimeout(resolve, Number(mockResponse.delay)));
+    }
+
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(mockResponse.headers || {})) {
+      headers[name.toLowerCase()] = String(value);
+    }
+    let body = '';
+    if (typeof mockResponse.body === 'string') {
+      body = mockResponse.body;
+      headers['content-type'] = headers['content-type'] || 'text/plain';
+    } else if (mockResponse.body !== undefined) {
+      body = JSON.stringify(mockResponse.body);
+      headers['content-type'] = headers['content-type'] || 'application/json';
+    }
+    response.writeHead(Number(mockResponse.status || 200), headers);
+    response.end(body);
+  }
+
+  private static readBody(request: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      request.on('data', chunk => chunks.push(chunk));
+      request.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+      request.on('error', reject);
+    });
+  }
+
+  private static parseBody(text: string, contentType: string | undefined): any {
+    if (text === '') return undefined;
+    if (contentType?.includes('application/x-www-form-urlencoded')) {
+      return Object.fromEntries(new URLSearchParams(text));
+    }
+    if (contentType?.includes('json')) {
+      try {
+        return JSON.parse(text);
+      } catch {
+        return text;
+      }
+    }
+    return text;
+  }
+
+  // Resolves {request....} references; other {...} text is left as written
+  private static render(value: any, scope: Record<string, any>): any {
+    if (typeof value === 'string') {
+      const whole = WHOLE_REFERENCE_PATTERN.exec(value);
+      if (whole) {
+        const resolved = MockServer.lookup(whole[1], scope);
+        return resolved !== undefined ? resolved : value;
+      }
+      return value.replace(REFERENCE_PATTERN, (match, reference) => {
+        const resolved = MockServer.lookup(reference, scope);
+        if (resolved === undefined) return match;
+        return typeof resolved === 'object' ? JSON.stringify(resolved) : String(resolved);
+      });
+    } else if (Array.isArray(value)) {
+      return value.map(item => MockServer.render(item, scope));
+    } else if (value && typeof value === 'object') {
+      const result: any = {};
+      for (const [key, item] of Object.entries(value)) {
+        result[key] = MockServer.render(item, scope);
+      }
+      return result;
+    }
+    return value;
+  }
+
+  private static lookup(reference: string, scope: Record<string, any>): any {
+    const path = VariableResolver.parsePath(reference.trim());
+    if (!path || !(String(path[0]) in scope)) return undefined;
+    return VariableResolver.getPath(scope, path);
+  }
+}
@@ -0,0 +1,102 @@
+import { getConnectionSettings } from './sql-connection-settings';
+const { Pool, Client } = require('pg');
+
+const CONNECTION_KEYS = ['connectionString', 'host', 'port', 'database', 'user', 'password', 'schema', 'ssl', 'max', 'idleTimeoutMillis', 'connectionTimeoutMillis'];
+
+/**
+ * PostgreSQLPools class that keeps one connection pool per named PostgreSQL connection for the whole run.
+ *
+ * Named connections are configured under `actions.postgresql.connections.<name>`. The settings directly
+ * under `actions.postgresql` form the `default` connection, unless `connections.default` is defined.
+ * `schema` is applied as the `search_path` of every connection in the pool.
+ *
+ * example config:
+ * ```yaml
+ * actions:
+ *   postgresql:
+ *     host: localhost
+ *     port: 5432
+ *     database: testdb
+ *     schema: test_schema
+ *     user: test_app_user
+ *     password: app_password
+ *     connections:
+ *       reporting:
+ *         host: reporting-db
+ *         database: reports
+ *         user: reader
+ *         password: reader_password
+ *         max: 2
+ * ```
+ */
+export class PostgreSQLPools {
+  private static instance: PostgreSQLPools | null = null;
+  private pools: Map<string, any> = new Map();
+
+  private constructor() {}
+
+  public static getInstance(): PostgreSQLPools {
+    if (!PostgreSQLPools.instance) {
+      PostgreSQLPools.instance = new PostgreSQLPools();
+    }
+    return PostgreSQLPools.instance;
+  }
+
+  /**
+   * Returns the pool of a named connection, creating it on first use.
+   */
+  public static getPool(name: string = 'default'): any {
+    const instance = PostgreSQLPools.getInstance();
+    let pool = instance.pools.get(name);
+    if (!pool) {
+      const settings = PostgreSQLPools.getSettings(name);
+      pool = new Pool({
+        connectionString: settings.connectionString,
+        host: settings.host,
+        port: settings.port !== undefined ? parseInt(settings.port) : undefined,
+        database: settings.database,
+        user: settings.user,
+        password: settings.password,
+        ssl: settings.ssl,
+        max: settings.max !== undefined ? parseInt(settings.max) : undefined,
+        idleTimeoutMillis: settings.idleTimeoutMillis !== undefined ? parseInt(settings.idleTimeoutMillis) : undefined,
+        connectionTimeoutMillis: settings.connectionTimeoutMillis !== undefined ? parseInt(settings.connectionTimeoutMillis) : undefined,
+        options: settings.schema ? `-c search_path=${settings.schema}` : undefined
+      });
+      // Idle connections can be dropped by the server; without a listener the error would end the process
+      pool.on('error', (error: Error) => {
+        console.error(`PostgreSQL connection '${name}' error: ${error.message}`);
+      });
+      instance.pools.set(name, pool);
+    }
+    return pool;
+  }
+
+  /**
+   * Cancels the query running on the backend with the given process id. The cancel request is sent
+   * over a separate connection, so it does not wait for a free connection of the pool.
+   */
+  public static async cancelQuery(name: string = 'default', processId: number): Promise<void> {
+    const client = new Client(PostgreSQLPools.getPool(name).options);
+    await client.connect();
+    try {
+      await client.query('SELECT pg_cancel_backend($1)', [processId]);
+    } finally {
+      await client.end();
+    }
+  }
+
+  public static getSettings(name: string = 'default'): Record<string, any> {
+    return getConnectionSettings('postgresql', 'PostgreSQL', name, CONNECTION_KEYS);
+  }
+
+  /**
+   * Closes every pool, called once when the run ends.
+   */
+  public static async closeAll(): Promise<void> {
+    const instance = PostgreSQLPools.getInstance();
+    const pools = Array.from(instance.pools.values());
+    instance.pools.clear();
+    await Promise.all(pools.map(pool => pool.end()));
+  }
+}
@@ -1,13 +1,25 @@
-import { BaseReporter } from './base-reporter';
-import { TestResult, StepResult, Status, StatusDetails } from 'allure-js-commons';
+import { BaseReporter, AttachmentWriter } from './base-reporter';
+import { TestResult, StepResult, FixtureResult, TestResultContainer, Status, StatusDetails } from 'allure-js-commons';
 import * as fs from 'fs';
 import * as path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 
+const ATTACHMENT_EXTENSIONS: Record<string, string> = {
+  'text/plain': 'txt',
+  'application/json': 'json',
+  'text/html': 'html',
+  'text/csv': 'csv',
+  'application/xml': 'xml'
+};
+
 export class AllureReporter extends BaseReporter {
   private outputDir: string;
   private currentTest: TestResult | null = null;
   private currentSteps: StepResult[] = [];
+  private openSteps: Map<string, StepResult> = new Map();
+  // Containers hold the setup and teardown fixtures of a test suite and of the current test case
+  private suiteContainer: TestResultContainer | null = null;
+  private testContainer: TestResultContainer | null = null;
 
   constructor(outputDir: string = './allure-results') {
     super();
@@ -18,7 +30,7 @@ export class AllureReporter extends BaseReporter {
     }
   }
 
-  public async reportTestStart(testCaseId: string, testCaseName: string): Promise<void> {
+  public async reportTestStart(testCaseId: string, testCaseName: string, parameters: Record<string, any> = {}): Promise<void> {
     this.currentTest = {
       uuid: uuidv4(),
       historyId: testCaseId,
@@ -29,15 +41,54 @@ export class AllureReporter extends BaseReporter {
       stage: 'running' as any,
       steps: [],
       attachments: [],
-      parameters: [],
+      // Parameters of a data-driven test case instance
+      parameters: Object.entries(parameters).map(([name, value]) => ({
+        name,
+        value: value !== null && typeof value === 'object' ? JSON.stringify(value) : String(value)
+      })),
       labels: [],
       links: [],
       statusDetails: {} as StatusDetails
     };
     this.currentSteps = [];
+    this.openSteps.clear();
+    this.testContainer = { uuid: uuidv4(), name: testCaseName, children: [this.currentTest.uuid], befores: [], afters: [] };
+  }
+
+  public async reportSuiteStart(suiteName: string): Promise<void> {
+    this.suiteContainer = { uuid: uuidv4(), name: suiteName, children: [], befores: [], afters: [] };
+  }
+
+  public async reportFixtureStart(fixtureId: string, fixtureName: string, type: 'setup' | 'teardown'): Promise<void> {
+    const container = this.currentTest ? this.testContainer : this.suiteContainer;
+    if (!container) return;
+
+    const fixture: FixtureResult = {
+      name: fixtureName,
+      start: Date.now(),
+      status: Status.PASSED,
+      stage: 'running' as any,
+      steps: [],
+      attachments: [],
+      parameters: [],
+      statusDetails: {} as StatusDetails
+    };
+    (type === 'setup' ? container.befores : container.afters).push(fixture);
+    this.openSteps.set(fixtureId, fixture);
   }
 
-  public async reportStepStart(stepId: string, stepName: string, kind: string): Promise<void> {
+  public async reportFixtureEnd(fixtureId: string, success: boolean, output: any): Promise<void> {
+    await this.reportStepEnd(fixtureId, success, output);
+  }
+
+  public async reportSuiteEnd(suiteName: string): Promise<void> {
+    if (this.suiteContainer) {
+      this.writeContainer(this.suiteContainer);
+      this.suiteContainer = null;
+    }
+  }
+
+  public async reportStepStart(stepId: string, stepName: string, kind: string, parentStepId?: string): Promise<void> {
     const step: StepResult = {
       name: stepName,
       start: Date.now(),
@@ -48,11 +99,18 @@ export class AllureReporter extends BaseReporter {
       parameters: [],
       statusDetails: {} as StatusDetails
     };
-    this.currentSteps.push(step);
+    const parent = parentStepId ? this.openSteps.get(parentStepId) : undefined;
+    if (parent) {
+      parent.steps.push(step);
+    } else {
+      this.currentSteps.push(step);
+    }
+    this.openSteps.set(stepId, step);
   }
 
   public async reportStepEnd(stepId: string, success: boolean, output: any): Promise<void> {
-    const step = this.currentSteps[this.currentSteps.length - 1];
+    const step = this.openSteps.get(stepId);
+    this.openSteps.delete(stepId);
     if (step) {
       step.stop = Date.now();
       step.status = success ? Status.PASSED : Status.FAILED;
@@ -67,7 +125,24 @@ export class AllureReporter extends BaseReporter {
     }
   }
 
-  public async reportStepSkipped(stepId: string, stepName: string, kind: string, reason: string): Promise<void> {
+  public async createAttachment(stepId: string, name: string, contentType: string): Promise<AttachmentWriter | undefined> {
+    const step = this.openSteps.get(stepId);
+    if (!step) return undefined;
+
+    const extension = ATTACHMENT_EXTENSIONS[contentType] || 'txt';
+    const source = `${uuidv4()}-attachment.${extension}`;
+    step.attachments.push({ name, source, type: contentType });
+
+    const stream = fs.createWriteStream(path.join(this.outputDir, source));
+    return {
+      write: chunk => {
+        stream.write(chunk);
+      },
+      end: () => new Promise(resolve => stream.end(() => resolve()))
+    };
+  }
+
+  public async reportStepSkipped(stepId: string, stepName: string, kind: string, reason: string, parentStepId?: string): Promise<void> {
     const step: StepResult = {
       name: stepName,
       start: Date.now(),
@@ -91,7 +166,12 @@ export class AllureReporter extends BaseReporter {
       }
     };
 
-    this.currentSteps.push(step);
+    const parent = parentStepId ? this.openSteps.get(parentStepId) : undefined;
+    if (parent) {
+      parent.steps.push(step);
+    } else {
+      this.currentSteps.push(step);
+    }
   }
 
   public async reportTestEnd(testCaseId: string, success: boolean): Promise<void> {
@@ -111,12 +191,24 @@ export class AllureReporter extends BaseReporter {
       const filename = `${this.currentTest.uuid}-result.json`;
       const filePath = path.join(this.outputDir, filename);
       fs.writeFileSync(filePath, JSON.stringify(this.currentTest, null, 2), 'utf8');
+
+      this.suiteContainer?.children.push(this.currentTest.uuid);
+      if (this.testContainer && (this.testContainer.befores.length > 0 || this.testContainer.afters.length > 0)) {
+        this.writeContainer(this.testContainer);
+      }
       
+      this.testContainer = null;
       this.currentTest = null;
       this.currentSteps = [];
+      this.openSteps.clear();
     }
   }
 
+  private writeContainer(container: TestResultContainer): void {
+    const filePath = path.join(this.outputDir, `${container.uuid}-container.json`);
+    fs.writeFileSync(filePath, JSON.stringify(container, null, 2), 'utf8');
+  }
+
   public async generateReport(): Promise<void> {
     console.log(`Allure results saved to: ${this.outputDir}`);
   }
@@ -19,11 +19,38 @@ export interface StepResult {
   duration: number;
 }
 
+export interface AttachmentWriter {
+  write(chunk: string | Buffer): void;
+  end(): Promise<void>;
+}
+
 export abstract class BaseReporter {
-  public abstract reportTestStart(testCaseId: string, testCaseName: string): Promise<void>;
-  public abstract reportStepStart(stepId: string, stepName: string, kind: string): Promise<void>;
+  public abstract reportTestStart(testCaseId: string, testCaseName: string, parameters?: Record<string, any>): Promise<void>;
+  public abstract reportStepStart(stepId: string, stepName: string, kind: string, parentStepId?: string): Promise<void>;
   public abstract reportStepEnd(stepId: string, success: boolean, output: any): Promise<void>;
-  public abstract reportStepSkipped(stepId: string, stepName: string, kind: string, reason: string): Promise<void>;
+  public abstract reportStepSkipped(stepId: string, stepName: string, kind: string, reason: string, parentStepId?: string): Promise<void>;
   public abstract reportTestEnd(testCaseId: string, success: boolean): Promise<void>;
   public abstract generateReport(): Promise<void>;
+
+  /**
+   * Suite events wrap the test cases of a test suite. Fixtures are the runs of its setup and teardown
+   * hooks; steps reported with the fixture id as parent belong to the fixture. Fixtures started while
+   * a test case runs (beforeEach / afterEach) belong to that test case, others to the suite.
+   * Reporters without a notion of fixtures can ignore these events.
+   */
+  public async reportSuiteStart(suiteName: string): Promise<void> {}
+
+  public async reportFixtureStart(fixtureId: string, fixtureName: string, type: 'setup' | 'teardown'): Promise<void> {}
+
+  public async reportFixtureEnd(fixtureId: string, success: boolean, output: any): Promise<void> {}
+
+  public async reportSuiteEnd(suiteName: string): Promise<void> {}
+
+  /**
+   * Adds an attachment to a running step. Content is written as it arrives, so it can be read while the step still runs.
+   * Returns undefined when the reporter does not support attachments.
+   */
+  public async createAttachment(stepId: string, name: string, contentType: string): Promise<AttachmentWriter | undefined> {
+    return undefined;
+  }
 }
\ No newline at end of file
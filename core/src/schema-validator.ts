@@ -0,0 +1,190 @@
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import addFormats from 'ajv-formats';
+import * as YAML from 'yamljs';
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { Assertion, AssertionFailure } from './assertion';
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+/**
+ * SchemaValidator class that validates values against JSON Schemas and OpenAPI 3 response schemas.
+ *
+ * Schema and specification files may be JSON or YAML. Relative paths are resolved against the
+ * given base directory (normally the directory of the test case file).
+ */
+export class SchemaValidator {
+  private static instance: SchemaValidator | null = null;
+  private ajv: Ajv;
+  private documents: Map<string, any> = new Map();
+  private validators: Map<string, ValidateFunction> = new Map();
+
+  private constructor() {
+    // OpenAPI documents carry keywords such as `example` that are not part of JSON Schema
+    this.ajv = new Ajv({ allErrors: true, strict: false, verbose: true });
+    addFormats(this.ajv);
+  }
+
+  public static getInstance(): SchemaValidator {
+    if (!SchemaValidator.instance) {
+      SchemaValidator.instance = new SchemaValidator();
+    }
+    return SchemaValidator.instance;
+  }
+
+  /**
+   * Validates data against an inline schema object or the path of a schema file.
+   */
+  public static validate(data: any, schema: any, baseDir: string, rootPath: string = '$'): AssertionFailure[] {
+    const instance = SchemaValidator.getInstance();
+
+    let validator: ValidateFunction;
+    if (typeof schema === 'string') {
+      const filePath = path.resolve(baseDir, schema);
+      validator = instance.getValidator(filePath, () => instance.loadDocument(filePath));
+    } else {
+      validator = instance.getInlineValidator(schema);
+    }
+
+    return validator(data) ? [] : SchemaValidator.toFailures(validator.errors || [], rootPath);
+  }
+
+  /**
+   * Validates data against the response schema that an OpenAPI 3 document declares for an operation and status code.
+   */
+  public static validateOpenApiResponse(
+    data: any,
+    specPath: string,
+    operationId: string,
+    status: number,
+    contentType: string | undefined,
+    baseDir: string,
+    rootPath: string = '$'
+  ): AssertionFailure[] {
+    const instance = SchemaValidator.getInstance();
+    const filePath = path.resolve(baseDir, specPath);
+    const spec = instance.loadDocument(filePath);
+
+    const operationPointer = SchemaValidator.findOperation(spec, operationId);
+    if (!operationPointer) {
+      return [{ path: rootPath, message: `Operation '${operationId}' not found in ${specPath}`, expected: operationId, actual: undefined }];
+    }
+    const operation = SchemaValidator.resolvePointer(spec, operationPointer);
+
+    const responses = operation.responses || {};
+    const statusKey = [String(status), `${String(status)[0]}XX`, 'default'].find(key => key in responses);
+    if (!statusKey) {
+      return [{
+        path: '$.status',
+        message: `Status ${status} is not documented for operation '${operationId}'`,
+        expected: Object.keys(responses),
+        actual: status
+      }];
+    }
+
+    let response = responses[statusKey];
+    let responsePointer = `${operationPointer}/responses/${SchemaValidator.escapePointer(statusKey)}`;
+    if (response.$ref) {
+      responsePointer = response.$ref.replace(/^#/, '');
+      response = SchemaValidator.resolvePointer(spec, responsePointer);
+    }
+
+    const content = response.content || {};
+    const mediaType = SchemaValidator.selectMediaType(Object.keys(content), contentType);
+    if (!mediaType || !content[mediaType].schema) {
+      // The operation documents no body for this status, so there is nothing to validate
+      return [];
+    }
+
+    const schemaPointer = `${responsePointer}/content/${SchemaValidator.escapePointer(mediaType)}/schema`;
+    const documentId = pathToFileURL(filePath).href;
+    const fragment = schemaPointer.split('/').map(token => encodeURIComponent(token)).join('/');
+    const validator = instance.getValidator(`${documentId}#${fragment}`, () => ({ $ref: `${documentId}#${fragment}` }), filePath);
+    return validator(data) ? [] : SchemaValidator.toFailures(validator.errors || [], rootPath);
+  }
+
+  private getValidator(key: string, createSchema: () => any, documentPath?: string): ValidateFunction {
+    let validator = this.validators.get(key);
+    if (!validator) {
+      // References into an OpenAPI document require the whole document to be registered under its path
+      if (documentPath) {
+        const documentId = pathToFileURL(documentPath).href;
+        if (!this.ajv.getSchema(documentId)) {
+          this.ajv.addSchema(this.loadDocument(documentPath), documentId);
+        }
+      }
+      validator = this.ajv.compile(createSchema());
+      this.validators.set(key, validator);
+    }
+    return validator;
+  }
+
+  private getInlineValidator(schema: any): ValidateFunction {
+    const key = `inline:${JSON.stringify(schema)}`;
+    // Ajv registers a schema with $id under that id, so it cannot be compiled a second time
+    const registered = !this.validators.has(key) && typeof schema?.$id === 'string' ? this.ajv.getSchema(schema.$id) : undefined;
+    if (registered) {
+      this.validators.set(key, registered);
+      return registered;
+    }
+    return this.getValidator(key, () => schema);
+  }
+
+  private loadDocument(filePath: string): any {
+    let document = this.documents.get(filePath);
+    if (!document) {
+      if (!fs.existsSync(filePath)) {
+        throw new Error(`Schema file not found: ${filePath}`);
+      }
+      const content = fs.readFileSync(filePath, 'utf8');
+      document = filePath.endsWith('.json') ? JSON.parse(content) : YAML.parse(content);
+      this.documents.set(filePath, document);
+    }
+    return document;
+  }
+
+  private static findOperation(spec: any, operationId: string): string | undefined {
+    for (const [route, pathItem] of Object.entries<any>(spec.paths || {})) {
+      for (const method of HTTP_METHODS) {
+        if (pathItem?.[method]?.operationId === operationId) {
+          return `/paths/${SchemaValidator.escapePointer(route)}/${method}`;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  private static selectMediaType(mediaTypes: string[], contentType: string | undefined): string | undefined {
+    const actual = contentType?.split(';')[0].trim().toLowerCase();
+    return mediaTypes.find(type => type.toLowerCase() === actual)
+      || mediaTypes.find(type => /json/i.test(type))
+      || mediaTypes[0];
+  }
+
+  private static resolvePointer(document: any, pointer: string): any {
+    return pointer.split('/').slice(1).reduce((value, token) => {
+      return value?.[token.replace(/~1/g, '/').replace(/~0/g, '~')];
+    }, document);
+  }
+
+  private static escapePointer(token: string): string {
+    return token.replace(/~/g, '~0').replace(/\//g, '~1');
+  }
+
+  private static toFailures(errors: ErrorObject[], rootPath: string): AssertionFailure[] {
+    return errors.map(error => {
+      const instancePath = error.instancePath
+        .split('/')
+        .slice(1)
+        .map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'))
+        .reduce((result, token) => /^\d+$/.test(token) ? `${result}[${token}]` : Assertion.childPath(result, token), rootPath);
+      return {
+        path: instancePath,
+        message: `Expected ${instancePath} ${error.message} (schema ${error.schemaPath})`,
+        expected: error.params,
+        actual: error.data
+      };
+    });
+  }
+}
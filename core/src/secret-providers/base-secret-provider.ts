@@ -0,0 +1,3 @@
+export abstract class BaseSecretProvider {
+  public abstract getSecret(name: string): Promise<string | undefined>;
+}
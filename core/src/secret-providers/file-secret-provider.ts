@@ -0,0 +1,39 @@
+import { BaseSecretProvider } from './base-secret-provider';
+import * as YAML from 'yamljs';
+import * as fs from 'fs';
+
+/**
+ * FileSecretProvider class that reads secrets from a local YAML or JSON file.
+ *
+ * Nested keys are addressed with dots, so `{secrets.db.password}` reads `db.password`.
+ *
+ * example secrets file:
+ * ```yaml
+ * apiToken: local-development-token
+ * db:
+ *   password: app_password
+ * ```
+ */
+export class FileSecretProvider extends BaseSecretProvider {
+  private secrets: any = {};
+
+  constructor(filePath: string) {
+    super();
+    if (fs.existsSync(filePath)) {
+      const content = fs.readFileSync(filePath, 'utf8');
+      this.secrets = YAML.parse(content) || {};
+    }
+  }
+
+  public async getSecret(name: string): Promise<string | undefined> {
+    let value = this.secrets;
+    for (const key of name.split('.')) {
+      if (value && typeof value === 'object' && key in value) {
+        value = value[key];
+      } else {
+        return undefined;
+      }
+    }
+    return value === undefined || value === null || typeof value === 'object' ? undefined : String(value);
+  }
+}
@@ -0,0 +1,73 @@
+import { BaseSecretProvider } from './secret-providers/base-secret-provider';
+
+export const SECRET_MASK = '***';
+
+export class Secrets {
+  private static instance: Secrets | null = null;
+  private provider: BaseSecretProvider | null = null;
+  private resolvedValues: Set<string> = new Set();
+
+  private constructor() {}
+
+  public static getInstance(): Secrets {
+    if (!Secrets.instance) {
+      Secrets.instance = new Secrets();
+    }
+    return Secrets.instance;
+  }
+
+  public static setProvider(provider: BaseSecretProvider): void {
+    const instance = Secrets.getInstance();
+    instance.provider = provider;
+  }
+
+  /**
+   * Reads a secret from the configured provider and remembers its value so that it can be masked.
+   */
+  public static async get(name: string): Promise<string | undefined> {
+    const instance = Secrets.getInstance();
+    if (!instance.provider) {
+      return undefined;
+    }
+
+    const value = await instance.provider.getSecret(name);
+    if (value) {
+      instance.resolvedValues.add(value);
+    }
+    return value;
+  }
+
+  /**
+   * Returns a copy of the value with every resolved secret replaced by the mask.
+   */
+  public static mask<T>(value: T): T {
+    const instance = Secrets.getInstance();
+    if (instance.resolvedValues.size === 0) {
+      return value;
+    }
+
+    // Replace longer secrets first so that a secret containing another one is fully masked
+    const secrets = Array.from(instance.resolvedValues).sort((a, b) => b.length - a.length);
+    const maskValue = (item: any): any => {
+      if (typeof item === 'string') {
+        return secrets.reduce((text, secret) => text.split(secret).join(SECRET_MASK), item);
+      } else if (Array.isArray(item)) {
+        return item.map(maskValue);
+      } else if (item && typeof item === 'object') {
+        const result: any = {};
+        for (const [key, entry] of Object.entries(item)) {
+          result[key] = maskValue(entry);
+        }
+        return result;
+      }
+      return item;
+    };
+    return maskValue(value);
+  }
+
+  public static reset(): void {
+    const instance = Secrets.getInstance();
+    instance.provider = null;
+    instance.resolvedValues.clear();
+  }
+}
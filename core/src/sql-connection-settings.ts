@@ -0,0 +1,24 @@
+import { Config } from './config';
+
+/**
+ * Reads the settings of a named connection of an SQL database action.
+ *
+ * Named connections are configured under `actions.<database>.connections.<name>`. The keys directly
+ * under `actions.<database>` form the `default` connection, unless `connections.default` is defined.
+ */
+export function getConnectionSettings(database: string, label: string, name: string, keys: string[]): Record<string, any> {
+  const connections = Config.get(`actions.${database}.connections`) || {};
+  if (connections[name]) {
+    return connections[name];
+  }
+  if (name !== 'default') {
+    const available = ['default', ...Object.keys(connections)];
+    throw new Error(`${label} connection '${name}' is not defined in actions.${database}.connections. Available connections: ${available.join(', ')}`);
+  }
+
+  const settings: Record<string, any> = {};
+  for (const key of keys) {
+    settings[key] = Config.get(`actions.${database}.${key}`);
+  }
+  return settings;
+}
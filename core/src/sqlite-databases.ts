@@ -0,0 +1,100 @@
+import initSqlJs from 'sql.js';
+import * as fs from 'fs';
+import * as path from 'path';
+
+interface OpenDatabase {
+  database: initSqlJs.Database;
+  // The database has a single connection, so steps use it one at a time
+  queue: Promise<void>;
+}
+
+export interface SQLiteHandle {
+  database: initSqlJs.Database;
+  release(): void;
+}
+
+/**
+ * SQLiteDatabases class that keeps the SQLite database files used in a run open in memory.
+ *
+ * Databases are run by sql.js, a WebAssembly build of SQLite, so no native module or server is needed.
+ * A file is loaded on first use (or created when it does not exist) and written back every time a
+ * step releases it. `:memory:` opens a database that lives for the whole run and is never written.
+ */
+export class SQLiteDatabases {
+  private static instance: SQLiteDatabases | null = null;
+  private sqlJs: Promise<initSqlJs.SqlJsStatic> | null = null;
+  private databases: Map<string, Promise<OpenDatabase>> = new Map();
+
+  private constructor() {}
+
+  public static getInstance(): SQLiteDatabases {
+    if (!SQLiteDatabases.instance) {
+      SQLiteDatabases.instance = new SQLiteDatabases();
+    }
+    return SQLiteDatabases.instance;
+  }
+
+  /**
+   * Waits until the database is free and returns it; release() writes the file and frees it again.
+   */
+  public static async acquire(filePath: string): Promise<SQLiteHandle> {
+    const instance = SQLiteDatabases.getInstance();
+    let opening = instance.databases.get(filePath);
+    if (!opening) {
+      opening = instance.open(filePath);
+      instance.databases.set(filePath, opening);
+    }
+    const open = await opening;
+
+    const previous = open.queue;
+    let unlock: () => void = () => {};
+    open.queue = new Promise(resolve => {
+      unlock = resolve;
+    });
+    await previous;
+
+    return {
+      database: open.database,
+      release: () => {
+        try {
+          SQLiteDatabases.save(filePath, open.database);
+        } finally {
+          unlock();
+        }
+      }
+    };
+  }
+
+  /**
+   * Writes and closes every database, called once when the run ends.
+   */
+  public static async closeAll(): Promise<void> {
+    const instance = SQLiteDatabases.getInstance();
+    const databases = Array.from(instance.databases.entries());
+    instance.databases.clear();
+    for (const [filePath, opening] of databases) {
+      const open = await opening;
+      await open.queue;
+      SQLiteDatabases.save(filePath, open.database);
+      open.database.close();
+    }
+  }
+
+  private async open(filePath: string): Promise<OpenDatabase> {
+    if (!this.sqlJs) {
+      this.sqlJs = initSqlJs();
+    }
+    const SQL = await this.sqlJs;
+    const database = filePath !== ':memory:' && fs.existsSync(filePath)
+      ? new SQL.Database(fs.readFileSync(filePath))
+      : new SQL.Database();
+    return { database, queue: Promise.resolve() };
+  }
+
+  private static save(filePath: string, database: initSqlJs.Database): void {
+    if (filePath !== ':memory:') {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, Buffer.from(database.export()));
+    }
+  }
+}
@@ -0,0 +1,113 @@
+import { TestCase } from './test-engine';
+import { parse as parseCsv } from 'csv-parse/sync';
+import * as YAML from 'yamljs';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface TestCaseInstance {
+  // Appended to the test case id and name, e.g. ` [role=admin, user=alice]`
+  suffix: string;
+  params: Record<string, any>;
+}
+
+/**
+ * TestCaseParameters class that expands a data-driven test case into one instance per parameter set.
+ *
+ * `matrix` maps parameter names to lists of values and yields every combination of them. `dataset`
+ * is the path of a CSV, JSON or YAML file (relative to the test case file) with one row of
+ * parameters per instance; CSV files have a header row and all values are read as strings. With
+ * both, every dataset row is combined with every matrix combination.
+ *
+ * example test case:
+ * ```yaml
+ * kind: TestCase/v0
+ * name: Login
+ * dataset: ../datasets/users.csv
+ * matrix:
+ *   locale: [en, ja]
+ * step:
+ * - name: Log in
+ *   kind: RestApiCall
+ *   params:
+ *     url: "{config.baseUrl}/login?locale={params.locale}"
+ *     body:
+ *       username: "{params.username}"
+ * ```
+ *
+ * Steps read the parameters as `{params.<name>}` and `if` conditions as `params.<name>`.
+ */
+export class TestCaseParameters {
+  public static isParameterized(testCase: TestCase): boolean {
+    return testCase.matrix !== undefined || testCase.dataset !== undefined;
+  }
+
+  public static expand(testCase: TestCase, baseDir: string): TestCaseInstance[] {
+    const rows = testCase.dataset !== undefined ? TestCaseParameters.loadDataset(testCase.dataset, baseDir) : [{}];
+    const combinations = testCase.matrix !== undefined ? TestCaseParameters.combine(testCase.matrix) : [{}];
+
+    const instances: TestCaseInstance[] = [];
+    const suffixes = new Set<string>();
+    for (const row of rows) {
+      for (const combination of combinations) {
+        const duplicate = Object.keys(combination).find(name => name in row);
+        if (duplicate) {
+          throw new Error(`Parameter '${duplicate}' is defined by both the dataset and the matrix`);
+        }
+        const params = { ...row, ...combination };
+        let suffix = ` [${Object.entries(params).map(([name, value]) => `${name}=${TestCaseParameters.format(value)}`).join(', ')}]`;
+        // Identical rows still need distinct test case ids
+        if (suffixes.has(suffix)) {
+          suffix = `${suffix} #${instances.length + 1}`;
+        }
+        suffixes.add(suffix);
+        instances.push({ suffix, params });
+      }
+    }
+    return instances;
+  }
+
+  private static combine(matrix: Record<string, any[]>): Record<string, any>[] {
+    if (!matrix || typeof matrix !== 'object' || Array.isArray(matrix)) {
+      throw new Error('matrix must map parameter names to lists of values');
+    }
+
+    let combinations: Record<string, any>[] = [{}];
+    for (const [name, values] of Object.entries(matrix)) {
+      if (!Array.isArray(values) || values.length === 0) {
+        throw new Error(`matrix.${name} must be a non-empty list of values`);
+      }
+      combinations = combinations.flatMap(combination => values.map(value => ({ ...combination, [name]: value })));
+    }
+    return combinations;
+  }
+
+  private static loadDataset(file: string, baseDir: string): Record<string, any>[] {
+    if (typeof file !== 'string') {
+      throw new Error('dataset must be the path of a CSV, JSON or YAML file');
+    }
+    const filePath = path.resolve(baseDir, file);
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Dataset file not found: ${filePath}`);
+    }
+
+    const content = fs.readFileSync(filePath, 'utf8');
+    const extension = path.extname(filePath).toLowerCase();
+    const rows = extension === '.csv'
+      ? parseCsv(content, { columns: true, bom: true, skip_empty_lines: true })
+      : extension === '.json' ? JSON.parse(content) : YAML.parse(content);
+
+    if (!Array.isArray(rows) || rows.length === 0) {
+      throw new Error(`Dataset file ${file} must contain a non-empty list of rows`);
+    }
+    rows.forEach((row, index) => {
+      if (!row || typeof row !== 'object' || Array.isArray(row)) {
+        throw new Error(`Row ${index + 1} of dataset file ${file} must be an object of parameter values`);
+      }
+    });
+    return rows;
+  }
+
+  private static format(value: any): string {
+    return value !== null && typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+}
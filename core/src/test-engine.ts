@@ -1,17 +1,44 @@
-import { StepDefinition, ActionResult } from './actions/base-action';
+import { StepDefinition, ActionResult, ActionContext, BaseAction, RetryPolicy } from './actions/base-action';
 import { BaseReporter } from './reporters/base-reporter';
 import { ActionRegistry } from './action-registry';
+import { Config } from './config';
+import { Expression, ExpressionScope, PathSegment } from './expression';
+import { VariableResolver } from './variable-resolver';
+import { Secrets } from './secrets';
+import { CompositeDefinition, CompositeDefinitions } from './composite-definitions';
+import { TestSuiteDefinition, SuiteHook } from './test-suites';
+import * as path from 'path';
 
 export interface TestCase {
   kind: string;
   version: string;
   name: string;
+  vars?: Record<string, any>;
+  isolation?: 'none' | 'transaction';
+  // Expanded by TestCaseParameters into one test case instance per parameter set
+  matrix?: Record<string, any[]>;
+  dataset?: string;
   step: StepDefinition[];
 }
 
 export interface ExecutionContext {
   testCaseId: string;
   testCaseName: string;
+  testFilePath?: string;
+  session?: Map<string, any>;
+  cleanups?: (() => Promise<void>)[];
+  // Parameters of a data-driven test case instance
+  params?: Record<string, any>;
+  // Set when the steps belong to a composite action: its inputs, the report id of the calling step,
+  // the chain of composite files being run and the abort signal of the calling step
+  inputs?: Record<string, any>;
+  reportParentId?: string;
+  composites?: string[];
+  signal?: AbortSignal;
+  // Values bound by the enclosing loop, read as {item} and {index}
+  locals?: Record<string, any>;
+  // Results of the setup hook steps of the test suite, read as {suite.<stepId>}
+  suite?: Map<string, ActionResult>;
   [key: string]: any;
 }
 
@@ -29,94 +56,117 @@ export interface StepState {
   result?: ActionResult;
 }
 
+interface LoopIteration {
+  index: number;
+  item: any;
+  success: boolean;
+  output: any;
+}
+
+type AttemptOutcome = 'success' | 'failure' | 'error' | 'timeout';
+
+interface StepPolicy {
+  timeout?: number;
+  attempts: number;
+  delay: number;
+  backoff: 'fixed' | 'exponential';
+  maxDelay?: number;
+  on: AttemptOutcome[];
+}
+
 export class TestEngine {
+  private static readonly EXPRESSION_ROOTS = ['steps', 'vars', 'inputs', 'params', 'item', 'index', 'suite', 'config', 'env', 'testCaseId', 'testCaseName'];
+  private static readonly COMPOSITE_KIND = 'Composite';
+  private static readonly GROUP_KIND = 'Group';
   private reporter: BaseReporter;
 
   constructor(reporter: BaseReporter) {
     this.reporter = reporter;
   }
 
-  private processStepVariables(
+  private createVariableResolver(
+    context: ExecutionContext,
+    stepResults: Map<string, ActionResult>,
+    locals: Record<string, any> | undefined = context.locals
+  ): VariableResolver {
+    const strict = Config.get('engine.strictVariables');
+    return new VariableResolver(context, stepResults, {
+      strict: strict === true || strict === 'true',
+      stepIds: context.testCase ? context.testCase.step.map((s: StepDefinition) => s.id) : [],
+      locals
+    });
+  }
+
+  private async processStepVariables(
     step: StepDefinition,
     context: ExecutionContext,
-    stepResults: Map<string, ActionResult>
-  ): StepDefinition {
-    const processedStep = JSON.parse(JSON.stringify(step));
-    
-    const replaceVariables = (obj: any): any => {
-      if (typeof obj === 'string') {
-        return obj.replace(/\{([^}]+)\}/g, (match, variable) => {
-          if (variable === 'testCaseId') return context.testCaseId;
-          if (variable === 'testCaseName') return context.testCaseName;
-          
-          const [stepId, ...path] = variable.split('.');
-          if (stepResults.has(stepId)) {
-            const result = stepResults.get(stepId)!;
-            if (path.length === 0) return JSON.stringify(result);
-            
-            let value: any = result;
-            for (const key of path) {
-              if (key.includes('[') && key.includes(']')) {
-                const [arrayKey, indexStr] = key.split('[');
-                const index = parseInt(indexStr.replace(']', ''));
-                value = value[arrayKey]?.[index];
-              } else {
-                value = value[key];
-              }
-              if (value === undefined) break;
-            }
-            return value !== undefined ? (typeof value === 'object' ? JSON.stringify(value) : String(value)) : match;
-          }
-          
-          return match;
-        });
-      } else if (Array.isArray(obj)) {
-        return obj.map(replaceVariables);
-      } else if (obj && typeof obj === 'object') {
-        const result: any = {};
-        for (const [key, value] of Object.entries(obj)) {
-          result[key] = replaceVariables(value);
-        }
-        return result;
-      }
-      return obj;
-    };
+    stepResults: Map<string, ActionResult>,
+    locals?: Record<string, any>
+  ): Promise<StepDefinition> {
+    // outputs refer to the step's own result, so they are resolved after the step has run,
+    // and the nested steps of a group are resolved one by one when they run
+    const { outputs, steps, ...definition } = step;
+    const resolver = this.createVariableResolver(context, stepResults, locals ?? context.locals);
+    await resolver.loadSecrets(definition);
+    const processedStep: StepDefinition = resolver.resolve(definition);
+    if (outputs) processedStep.outputs = outputs;
+    if (steps) processedStep.steps = steps;
+    return processedStep;
+  }
 
-    return replaceVariables(processedStep);
+  private async resolveTestCaseVars(testCase: TestCase, context: ExecutionContext): Promise<void> {
+    context.vars = {};
+    // Variables are resolved in declaration order, so a variable can refer to the ones above it
+    for (const [name, value] of Object.entries(testCase.vars || {})) {
+      const resolver = this.createVariableResolver(context, context.stepResults);
+      await resolver.loadSecrets(value);
+      context.vars[name] = resolver.resolve(value);
+    }
+  }
+
+  private async collectStepOutputs(step: StepDefinition, context: ExecutionContext, stepResults: Map<string, ActionResult>): Promise<void> {
+    if (!step.outputs) return;
+
+    const resolver = this.createVariableResolver(context, stepResults);
+    await resolver.loadSecrets(step.outputs);
+    const outputs = resolver.resolve(step.outputs);
+    context.vars = { ...context.vars, ...outputs };
   }
 
   public async executeTestStep(executionContext: ExecutionContext, stepId: string): Promise<ActionResult> {
     const { testCase, stepResults, testSuccess } = executionContext;
     const step = testCase.step.find((s: StepDefinition) => s.id === stepId);
     if (!step) throw new Error(`Step with id ${stepId} not found`);
-    const processedStep = this.processStepVariables(step, executionContext, stepResults);
+    const reportId = this.getReportId(executionContext, step.id);
+    const reportParentId = executionContext.reportParentId;
+    // Evaluate if condition against the raw expression so that template substitution cannot alter its syntax
+    if (!this.shouldExecuteStep(step, executionContext)) {
+      const reason = step.if ? `Condition: ${step.if}` : 'Condition: success() (default)';
+      console.log(`  Step ${reportId} (${step.kind}): SKIPPED (${reason})`);
+      await this.reporter.reportStepSkipped(reportId, step.name, step.kind, reason, reportParentId);
+      // Later conditions see a skipped step as successful, with steps.<id>.skipped set
+      const skippedResult: ActionResult = { success: true, skipped: true, output: 'SKIPPED' };
+      stepResults.set(step.id, skippedResult);
+      return skippedResult;
+    }
 
-    // Evaluate if condition
-    if (!this.shouldExecuteStep(processedStep, executionContext.testSuccess)) {
-      const reason = processedStep.if ? `Condition: ${processedStep.if}` : 'Condition: success() (default)';
-      console.log(`  Step ${processedStep.id} (${processedStep.kind}): SKIPPED (${reason})`);
-      await this.reporter.reportStepSkipped(processedStep.id, processedStep.name, processedStep.kind, reason);
-      return { success: true, output: 'SKIPPED' };
+    if (step.foreach !== undefined || step.repeat !== undefined) {
+      return this.executeLoopStep(step, executionContext, reportId);
     }
 
-    await this.reporter.reportStepStart(processedStep.id, processedStep.name, processedStep.kind);
-    const action = ActionRegistry.get(processedStep.kind);
-    if (!action) {
-      throw new Error(`Unknown action kind: ${processedStep.kind}`);
+    let processedStep: StepDefinition;
+    try {
+      processedStep = await this.processStepVariables(step, executionContext, stepResults);
+    } catch (error) {
+      return this.failStep(step, executionContext, reportId, error);
     }
+
+    // The resolved name may contain secrets, like the step output
+    await this.reporter.reportStepStart(reportId, Secrets.mask(processedStep.name), processedStep.kind, reportParentId);
+    const action = this.getAction(processedStep.kind);
     try {
-      const result = await action.execute(processedStep);
-      stepResults.set(processedStep.id, result);
-      // Debug logging
-      console.log(`  Step ${processedStep.id} (${processedStep.kind}): ${result.success ? 'SUCCESS' : 'FAILED'}`);
-      if (!result.success) {
-        console.log(`    Error: ${JSON.stringify(result.output, null, 2)}`);
-      } else {
-        console.log(`    Result structure: ${JSON.stringify(result.output, null, 2)}`);
-      }
-      await this.reporter.reportStepEnd(processedStep.id, result.success, result.output);
-      if (!result.success) executionContext.testSuccess = false;
-      return result;
+      const result = await this.executeWithPolicy(action, processedStep, executionContext, reportId);
+      return await this.recordStepResult(processedStep, result, executionContext, reportId);
     } catch (error) {
       const errorResult: ActionResult = {
         success: false,
@@ -126,44 +176,604 @@ export class TestEngine {
         }
       };
       stepResults.set(processedStep.id, errorResult);
-      await this.reporter.reportStepEnd(processedStep.id, false, errorResult.output);
+      await this.reporter.reportStepEnd(reportId, false, Secrets.mask(errorResult.output));
       executionContext.testSuccess = false;
       return errorResult;
     }
   }
 
-  private validateIfConditions(testCase: TestCase): void {
-    const validConditions = ['always()', 'success()', 'failure()'];
-    
+  /**
+   * Stores the result of a finished step, collects its outputs and reports it.
+   */
+  private async recordStepResult(step: StepDefinition, result: ActionResult, executionContext: ExecutionContext, reportId: string): Promise<ActionResult> {
+    const stepResults: Map<string, ActionResult> = executionContext.stepResults;
+    stepResults.set(step.id, result);
+    if (result.success) {
+      await this.collectStepOutputs(step, executionContext, stepResults);
+    }
+    // Resolved secrets stay in stepResults for later references but never reach logs or reports
+    const maskedOutput = Secrets.mask(result.output);
+    // Debug logging
+    console.log(`  Step ${reportId} (${step.kind}): ${result.success ? 'SUCCESS' : 'FAILED'}`);
+    if (!result.success) {
+      console.log(`    Error: ${JSON.stringify(maskedOutput, null, 2)}`);
+    } else {
+      console.log(`    Result structure: ${JSON.stringify(maskedOutput, null, 2)}`);
+    }
+    await this.reporter.reportStepEnd(reportId, result.success, maskedOutput);
+    if (!result.success) executionContext.testSuccess = false;
+    return result;
+  }
+
+  /**
+   * Fails a step that could not be started, e.g. because a reference in its definition did not resolve.
+   */
+  private async failStep(step: StepDefinition, executionContext: ExecutionContext, reportId: string, error: unknown): Promise<ActionResult> {
+    const errorResult: ActionResult = {
+      success: false,
+      output: { error: error instanceof Error ? error.message : 'Unknown error' }
+    };
+    console.log(`  Step ${reportId} (${step.kind}): FAILED`);
+    console.log(`    Error: ${JSON.stringify(Secrets.mask(errorResult.output), null, 2)}`);
+    executionContext.stepResults.set(step.id, errorResult);
+    await this.reporter.reportStepStart(reportId, step.name, step.kind, executionContext.reportParentId);
+    await this.reporter.reportStepEnd(reportId, false, Secrets.mask(errorResult.output));
+    executionContext.testSuccess = false;
+    return errorResult;
+  }
+
+  // Composite and Group steps are run by the engine itself
+  private getAction(kind: string): BaseAction | undefined {
+    if (kind === TestEngine.COMPOSITE_KIND || kind === TestEngine.GROUP_KIND) {
+      return undefined;
+    }
+    const action = ActionRegistry.get(kind);
+    if (!action) {
+      throw new Error(`Unknown action kind: ${kind}`);
+    }
+    return action;
+  }
+
+  /**
+   * Runs a step with `foreach` or `repeat` once per item. Every iteration is reported as a child
+   * step and runs with the step's timeout and retry policy. The step output lists the iterations.
+   */
+  private async executeLoopStep(step: StepDefinition, executionContext: ExecutionContext, reportId: string): Promise<ActionResult> {
+    let items: any[];
+    try {
+      items = await this.resolveLoopItems(step, executionContext);
+    } catch (error) {
+      return this.failStep(step, executionContext, reportId, error);
+    }
+
+    await this.reporter.reportStepStart(reportId, step.name, step.kind, executionContext.reportParentId);
+    const action = this.getAction(step.kind);
+    const { foreach, repeat, loop, ...iterationStep } = step;
+    const parallel = Number(loop?.parallel ?? 1);
+    const failFast = loop?.failFast === true;
+
+    // Iterations are started in order; with parallel > 1 up to that many run at the same time
+    const iterations: LoopIteration[] = [];
+    let next = 0;
+    let stopped = false;
+    const worker = async () => {
+      while (!stopped && next < items.length) {
+        const index = next++;
+        const item = items[index];
+        const name = Secrets.mask(foreach !== undefined && (item === null || typeof item !== 'object') ? `${step.name} [${index}: ${item}]` : `${step.name} [${index}]`);
+        const result = await this.executeIteration(action, iterationStep, name, executionContext, { item, index }, `${reportId}[${index}]`);
+        iterations[index] = { index, item, success: result.success, output: result.output };
+        if (!result.success && failFast) stopped = true;
+      }
+    };
+
+    try {
+      await Promise.all(Array.from({ length: Math.max(1, Math.min(parallel, items.length)) }, worker));
+    } catch (error) {
+      const errorResult: ActionResult = {
+        success: false,
+        output: {
+          error: error instanceof Error ? error.message : 'Unknown error',
+          stack: error instanceof Error ? error.stack : undefined
+        }
+      };
+      return this.recordStepResult(step, errorResult, executionContext, reportId);
+    }
+
+    const completed = iterations.filter(Boolean);
+    const failed = completed.filter(iteration => !iteration.success).length;
+    const notRun = items.length - completed.length;
+    const output = { count: items.length, passed: completed.length - failed, failed, ...(notRun > 0 ? { notRun } : {}), iterations: completed };
+    const result: ActionResult = failed === 0
+      ? { success: true, output }
+      : {
+        success: false,
+        output: { error: `${failed} of ${items.length} iteration(s) failed${notRun > 0 ? `, ${notRun} not run after the first failure` : ''}`, ...output }
+      };
+    return this.recordStepResult(step, result, executionContext, reportId);
+  }
+
+  private async resolveLoopItems(step: StepDefinition, executionContext: ExecutionContext): Promise<any[]> {
+    const resolver = this.createVariableResolver(executionContext, executionContext.stepResults);
+    if (step.foreach !== undefined) {
+      await resolver.loadSecrets(step.foreach);
+      const items = resolver.resolve(step.foreach);
+      if (!Array.isArray(items)) {
+        throw new Error(`foreach must resolve to a list, got ${JSON.stringify(items)}`);
+      }
+      return items;
+    }
+
+    const count = resolver.resolve(step.repeat);
+    if (!(Number.isInteger(Number(count)) && Number(count) >= 0)) {
+      throw new Error(`repeat must resolve to a non-negative integer, got ${JSON.stringify(count)}`);
+    }
+    return Array.from({ length: Number(count) }, (_, index) => index);
+  }
+
+  private async executeIteration(
+    action: BaseAction | undefined,
+    step: StepDefinition,
+    name: string,
+    executionContext: ExecutionContext,
+    locals: Record<string, any>,
+    iterationId: string
+  ): Promise<ActionResult> {
+    const iterationLocals = { ...executionContext.locals, ...locals };
+    await this.reporter.reportStepStart(iterationId, name, step.kind, this.getReportId(executionContext, step.id));
+
+    let result: ActionResult;
+    try {
+      const processedStep = await this.processStepVariables(step, executionContext, executionContext.stepResults, iterationLocals);
+      result = await this.executeWithPolicy(action, processedStep, executionContext, iterationId, iterationLocals);
+    } catch (error) {
+      result = { success: false, output: { error: error instanceof Error ? error.message : 'Unknown error' } };
+    }
+
+    const maskedOutput = Secrets.mask(result.output);
+    console.log(`  Step ${iterationId} (${step.kind}): ${result.success ? 'SUCCESS' : 'FAILED'}`);
+    if (!result.success) {
+      console.log(`    Error: ${JSON.stringify(maskedOutput, null, 2)}`);
+    }
+    await this.reporter.reportStepEnd(iterationId, result.success, maskedOutput);
+    return result;
+  }
+
+  private getStepPolicy(step: StepDefinition): StepPolicy {
+    const retry: RetryPolicy = step.retry || {};
+    const toNumber = (value: any): number | undefined => (value === undefined || value === null || value === '' ? undefined : Number(value));
+
+    // until polls the step, so it gets its own default number of attempts when retry.attempts is not set
+    const defaultAttempts = step.until
+      ? toNumber(Config.get('engine.step.until.attempts')) ?? 10
+      : toNumber(Config.get('engine.step.retry.attempts')) ?? 1;
+
+    return {
+      timeout: toNumber(step.timeout) ?? toNumber(Config.get('engine.step.timeout')),
+      attempts: toNumber(retry.attempts) ?? defaultAttempts,
+      delay: toNumber(retry.delay) ?? toNumber(Config.get('engine.step.retry.delay')) ?? 1000,
+      backoff: retry.backoff || Config.get('engine.step.retry.backoff') || 'fixed',
+      maxDelay: toNumber(retry.maxDelay) ?? toNumber(Config.get('engine.step.retry.maxDelay')),
+      on: retry.on || ['failure', 'error', 'timeout']
+    };
+  }
+
+  private async executeWithPolicy(
+    action: BaseAction | undefined,
+    step: StepDefinition,
+    executionContext: ExecutionContext,
+    reportId: string,
+    locals?: Record<string, any>
+  ): Promise<ActionResult> {
+    const policy = this.getStepPolicy(step);
+    const until = step.until ? Expression.parse(step.until) : undefined;
+    // Attempts are only reported as child steps when the step can run more than once
+    const reportAttempts = policy.attempts > 1;
+
+    let result: ActionResult = { success: false, output: { error: 'Step was not executed' } };
+    for (let attempt = 1; attempt <= policy.attempts; attempt++) {
+      const attemptId = `${reportId}[attempt ${attempt}]`;
+      if (reportAttempts) {
+        await this.reporter.reportStepStart(attemptId, Secrets.mask(`${step.name} (attempt ${attempt}/${policy.attempts})`), step.kind, reportId);
+      }
+
+      let outcome: AttemptOutcome;
+      ({ result, outcome } = await this.executeAttempt(action, step, policy.timeout, executionContext, reportAttempts ? attemptId : reportId, locals));
+
+      if (until && outcome === 'success') {
+        const scope = this.createExpressionScope(executionContext, { ...locals, output: result.output });
+        if (!until.evaluate(scope)) {
+          outcome = 'failure';
+          result = {
+            success: false,
+            output: { error: `Condition '${step.until}' was not satisfied`, lastOutput: result.output }
+          };
+        }
+      }
+
+      if (reportAttempts) {
+        await this.reporter.reportStepEnd(attemptId, result.success, Secrets.mask(result.output));
+      }
+
+      // An unsatisfied until condition always polls again, other failures only when retry.on allows it
+      const retryable = outcome !== 'success' && (until !== undefined || policy.on.includes(outcome));
+      if (!retryable || attempt === policy.attempts) {
+        if (!result.success && reportAttempts) {
+          result = { ...result, output: { ...result.output, attempts: attempt } };
+        }
+        break;
+      }
+
+      const delay = policy.backoff === 'exponential' ? policy.delay * Math.pow(2, attempt - 1) : policy.delay;
+      await new Promise(resolve => setTimeout(resolve, policy.maxDelay !== undefined ? Math.min(delay, policy.maxDelay) : delay));
+    }
+
+    return result;
+  }
+
+  private async executeAttempt(
+    action: BaseAction | undefined,
+    step: StepDefinition,
+    timeout: number | undefined,
+    executionContext: ExecutionContext,
+    reportParentId: string,
+    locals?: Record<string, any>
+  ): Promise<{ result: ActionResult; outcome: AttemptOutcome }> {
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+    let childCount = 0;
+
+    if (!executionContext.session) {
+      executionContext.session = new Map();
+    }
+    // Steps of a composite action stop when the step that runs the composite is aborted
+    const abort = () => controller.abort();
+    executionContext.signal?.addEventListener('abort', abort);
+    if (executionContext.signal?.aborted) abort();
+
+    const context: ActionContext = {
+      signal: controller.signal,
+      baseDir: executionContext.testFilePath ? path.dirname(executionContext.testFilePath) : process.cwd(),
+      session: executionContext.session,
+      isolation: executionContext.testCase?.isolation,
+      onTestCaseEnd: callback => {
+        executionContext.cleanups = [...(executionContext.cleanups || []), callback];
+      },
+      reportChildStep: async (name, success, output) => {
+        const childId = `${reportParentId}/${++childCount}`;
+        await this.reporter.reportStepStart(childId, name, step.kind, reportParentId);
+        await this.reporter.reportStepEnd(childId, success, Secrets.mask(output));
+      },
+      createAttachment: async (name, contentType) => {
+        const writer = await this.reporter.createAttachment(reportParentId, name, contentType);
+        if (!writer) return undefined;
+        // Chunks are masked one by one, so a secret split across two chunks is not masked
+        return {
+          write: chunk => writer.write(Secrets.mask(chunk.toString())),
+          end: () => writer.end()
+        };
+      }
+    };
+
+    const execution = (action
+      ? action.execute(step, context)
+      : step.kind === TestEngine.GROUP_KIND
+        ? this.executeGroup(step, context, executionContext, reportParentId, locals ?? executionContext.locals)
+        : this.executeComposite(step, context, executionContext, reportParentId))
+      .then(result => ({ result, outcome: (result.success ? 'success' : 'failure') as AttemptOutcome }))
+      .catch(error => ({
+        result: {
+          success: false,
+          output: {
+            error: error instanceof Error ? error.message : 'Unknown error',
+            stack: error instanceof Error ? error.stack : undefined
+          }
+        },
+        outcome: 'error' as AttemptOutcome
+      }));
+
+    if (!timeout) {
+      try {
+        return await execution;
+      } finally {
+        executionContext.signal?.removeEventListener('abort', abort);
+      }
+    }
+
+    const timedOut = new Promise<{ result: ActionResult; outcome: AttemptOutcome }>(resolve => {
+      timer = setTimeout(() => {
+        controller.abort();
+        resolve({ result: { success: false, output: { error: `Step timed out after ${timeout}ms` } }, outcome: 'timeout' });
+      }, timeout);
+    });
+
+    try {
+      return await Promise.race([execution, timedOut]);
+    } finally {
+      clearTimeout(timer);
+      executionContext.signal?.removeEventListener('abort', abort);
+    }
+  }
+
+  /**
+   * Runs the steps of the composite file in `step.uses` as nested steps of the calling step.
+   *
+   * The steps have their own step ids and `vars`, read the `with` values as `{inputs.<name>}`, and
+   * share the session, isolation and cleanups of the test case. The result is the declared
+   * `outputs` of the composite, resolved after its steps have run.
+   */
+  private async executeComposite(
+    step: StepDefinition,
+    context: ActionContext,
+    executionContext: ExecutionContext,
+    reportParentId: string
+  ): Promise<ActionResult> {
+    let prepared: { definition: CompositeDefinition; testCase: TestCase; nestedContext: ExecutionContext };
+    try {
+      prepared = await this.prepareComposite(step, context, executionContext, reportParentId);
+    } catch (error) {
+      return {
+        success: false,
+        output: { error: error instanceof Error ? error.message : 'Unknown error' }
+      };
+    }
+    const { definition, testCase, nestedContext } = prepared;
+
+    let success: boolean;
+    try {
+      success = await this.executeSteps(testCase, nestedContext);
+    } finally {
+      // Cleanups registered by the nested steps run when the calling test case ends
+      executionContext.cleanups = [...(executionContext.cleanups || []), ...(nestedContext.cleanups || [])];
+    }
+
+    const stepResults: Map<string, ActionResult> = nestedContext.stepResults;
+    if (!success) {
+      return {
+        success: false,
+        output: { error: this.describeNestedFailure(`Composite '${definition.name}'`, testCase, stepResults), steps: Object.fromEntries(stepResults) }
+      };
+    }
+
+    const resolver = this.createVariableResolver(nestedContext, stepResults);
+    await resolver.loadSecrets(definition.outputs || {});
+    return { success: true, output: resolver.resolve(definition.outputs || {}) };
+  }
+
+  private async prepareComposite(
+    step: StepDefinition,
+    context: ActionContext,
+    executionContext: ExecutionContext,
+    reportParentId: string
+  ): Promise<{ definition: CompositeDefinition; testCase: TestCase; nestedContext: ExecutionContext }> {
+    const filePath = path.resolve(context.baseDir || process.cwd(), step.uses!);
+    const composites = executionContext.composites || [];
+    if (composites.includes(filePath)) {
+      const chain = [...composites, filePath].map(file => path.relative(process.cwd(), file));
+      throw new Error(`Composite ${step.uses} calls itself: ${chain.join(' -> ')}`);
+    }
+    const definition = CompositeDefinitions.load(filePath);
+    const testCase: TestCase = {
+      kind: definition.kind,
+      version: 'v0',
+      name: definition.name,
+      vars: definition.vars,
+      isolation: executionContext.testCase?.isolation,
+      step: definition.step
+    };
+    this.validateTestCase(testCase);
+
+    const nestedContext: ExecutionContext = {
+      testCaseId: executionContext.testCaseId,
+      testCaseName: executionContext.testCaseName,
+      testFilePath: filePath,
+      session: executionContext.session,
+      testCase,
+      testSuccess: true,
+      stepResults: new Map<string, ActionResult>(),
+      reportParentId,
+      composites: [...composites, filePath],
+      signal: context.signal
+    };
+
+    // Defaults are resolved in the scope of the composite, e.g. `default: "{config.baseUrl}"`
+    const defaults: Record<string, any> = {};
+    for (const [name, input] of Object.entries(definition.inputs || {})) {
+      if (input && input.default !== undefined) {
+        const resolver = this.createVariableResolver(nestedContext, nestedContext.stepResults);
+        await resolver.loadSecrets(input.default);
+        defaults[name] = resolver.resolve(input.default);
+      }
+    }
+    nestedContext.inputs = CompositeDefinitions.bindInputs(definition, step.with || {}, defaults);
+    await this.resolveTestCaseVars(testCase, nestedContext);
+
+    return { definition, testCase, nestedContext };
+  }
+
+  /**
+   * Runs the `steps` of a Group step as nested steps. They see the step results, vars, params and
+   * loop values of the enclosing test case, so a group in a `foreach` loop runs its steps per item.
+   */
+  private async executeGroup(
+    step: StepDefinition,
+    context: ActionContext,
+    executionContext: ExecutionContext,
+    reportParentId: string,
+    locals?: Record<string, any>
+  ): Promise<ActionResult> {
+    const testCase = this.createGroupTestCase(step, executionContext.testCase?.isolation);
+    const nestedContext: ExecutionContext = {
+      ...executionContext,
+      vars: { ...executionContext.vars },
+      testCase,
+      testSuccess: true,
+      stepResults: new Map<string, ActionResult>(executionContext.stepResults),
+      cleanups: [],
+      reportParentId,
+      locals,
+      signal: context.signal
+    };
+
+    let success: boolean;
+    try {
+      success = await this.executeSteps(testCase, nestedContext);
+    } finally {
+      executionContext.cleanups = [...(executionContext.cleanups || []), ...(nestedContext.cleanups || [])];
+    }
+
+    const stepResults: Map<string, ActionResult> = nestedContext.stepResults;
+    const steps = Object.fromEntries(testCase.step.filter(nested => stepResults.has(nested.id) && !stepResults.get(nested.id)!.skipped).map(nested => [nested.id, stepResults.get(nested.id)]));
+    if (!success) {
+      return {
+        success: false,
+        output: { error: this.describeNestedFailure(`Group '${step.name}'`, testCase, stepResults), steps }
+      };
+    }
+    return { success: true, output: { steps } };
+  }
+
+  private describeNestedFailure(label: string, testCase: TestCase, stepResults: Map<string, ActionResult>): string {
+    const failed = testCase.step.find(nested => stepResults.get(nested.id)?.success === false);
+    const failedResult = failed ? stepResults.get(failed.id) : undefined;
+    return `${label} failed${failed ? ` at step '${failed.id}': ${failedResult?.output?.error || 'Step failed'}` : ''}`;
+  }
+
+  private createGroupTestCase(step: StepDefinition, isolation: TestCase['isolation']): TestCase {
+    return {
+      kind: TestEngine.GROUP_KIND,
+      version: 'v0',
+      name: step.name,
+      isolation,
+      step: step.steps!.map((nested, index) => ({ ...nested, id: nested.id || `#${index + 1}` }))
+    };
+  }
+
+  private getReportId(executionContext: ExecutionContext, stepId: string): string {
+    return executionContext.reportParentId ? `${executionContext.reportParentId}/${stepId}` : stepId;
+  }
+
+  private validateStepPolicies(testCase: TestCase, outerStepIds: string[]): void {
+    const validOutcomes = ['failure', 'error', 'timeout'];
+
     for (const step of testCase.step) {
-      if (step.if) {
-        const condition = step.if.toLowerCase().trim();
-        if (!validConditions.includes(condition)) {
-          throw new Error(`Invalid if condition '${step.if}' in step '${step.id}'. Valid conditions are: ${validConditions.join(', ')}`);
+      if (step.timeout !== undefined && !(Number(step.timeout) > 0)) {
+        throw new Error(`Invalid timeout '${step.timeout}' in step '${step.id}'. Timeout must be a positive number of milliseconds`);
+      }
+
+      if (step.retry) {
+        const { attempts, delay, backoff, on } = step.retry;
+        if (attempts !== undefined && !(Number.isInteger(Number(attempts)) && Number(attempts) >= 1)) {
+          throw new Error(`Invalid retry.attempts '${attempts}' in step '${step.id}'. Attempts must be an integer of at least 1`);
+        }
+        if (delay !== undefined && !(Number(delay) >= 0)) {
+          throw new Error(`Invalid retry.delay '${delay}' in step '${step.id}'. Delay must be a non-negative number of milliseconds`);
         }
+        if (backoff !== undefined && !['fixed', 'exponential'].includes(backoff)) {
+          throw new Error(`Invalid retry.backoff '${backoff}' in step '${step.id}'. Valid values are: fixed, exponential`);
+        }
+        const invalidOutcome = (on || []).find(outcome => !validOutcomes.includes(outcome));
+        if (invalidOutcome) {
+          throw new Error(`Invalid retry.on '${invalidOutcome}' in step '${step.id}'. Valid values are: ${validOutcomes.join(', ')}`);
+        }
+      }
+
+      if (step.until) {
+        this.validateExpression(step.until, 'until condition', step, testCase, outerStepIds, ['output']);
+      }
+    }
+  }
+
+  private validateIfConditions(testCase: TestCase, outerStepIds: string[]): void {
+    for (const step of testCase.step) {
+      if (step.if) {
+        this.validateExpression(step.if, 'if condition', step, testCase, outerStepIds);
       }
     }
   }
 
-  private shouldExecuteStep(step: StepDefinition, currentTestSuccess: boolean): boolean {
+  private validateExpression(
+    source: string,
+    label: string,
+    step: StepDefinition,
+    testCase: TestCase,
+    outerStepIds: string[],
+    extraRoots: string[] = []
+  ): void {
+    const stepIds = new Set([...outerStepIds, ...testCase.step.map(s => s.id)]);
+    const roots = [...TestEngine.EXPRESSION_ROOTS, ...extraRoots];
+
+    let expression: Expression;
+    try {
+      expression = Expression.parse(source);
+    } catch (error) {
+      throw new Error(`Invalid ${label} '${source}' in step '${step.id}'. ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    for (const path of expression.paths()) {
+      const [root, stepId] = path;
+      if (!roots.includes(String(root))) {
+        throw new Error(`Invalid ${label} '${source}' in step '${step.id}'. Unknown name '${root}', valid names are: ${roots.join(', ')}`);
+      }
+      if (root === 'steps' && (stepId === undefined || !stepIds.has(String(stepId)))) {
+        throw new Error(`Invalid ${label} '${source}' in step '${step.id}'. Step '${stepId}' does not exist`);
+      }
+    }
+  }
+
+  private createExpressionScope(executionContext: ExecutionContext, extraLocals: Record<string, any> = {}): ExpressionScope {
+    const stepResults: Map<string, ActionResult> = executionContext.stepResults;
+    const locals = { ...executionContext.locals, ...extraLocals };
+
+    const lookup = (path: PathSegment[]): any => {
+      const [root, ...rest] = path;
+      let value: any;
+      let remaining = rest;
+      if (String(root) in locals) {
+        return VariableResolver.getPath(locals[String(root)], rest);
+      }
+      switch (root) {
+        case 'steps':
+        case 'suite': {
+          const result = (root === 'suite' ? executionContext.suite : stepResults)?.get(String(rest[0]));
+          value = result && { success: result.success, failure: !result.success, skipped: !!result.skipped, output: result.output };
+          remaining = rest.slice(1);
+          break;
+        }
+        case 'vars':
+          value = executionContext.vars;
+          break;
+        case 'inputs':
+          value = executionContext.inputs;
+          break;
+        case 'params':
+          value = executionContext.params;
+          break;
+        case 'config':
+          return Config.get(rest.join('.'));
+        case 'env':
+          return rest.length === 1 ? process.env[String(rest[0])] : undefined;
+        case 'testCaseId':
+          value = executionContext.testCaseId;
+          break;
+        case 'testCaseName':
+          value = executionContext.testCaseName;
+          break;
+      }
+
+      return VariableResolver.getPath(value, remaining);
+    };
+
+    return { testSuccess: executionContext.testSuccess, lookup };
+  }
+
+  private shouldExecuteStep(step: StepDefinition, executionContext: ExecutionContext): boolean {
     // If no condition specified, treat as success() (only execute if test is currently successful)
     if (!step.if) {
-      return currentTestSuccess;
+      return executionContext.testSuccess;
     }
 
-    const condition = step.if.toLowerCase().trim();
-    
-    switch (condition) {
-      case 'always()':
-        return true;
-      case 'success()':
-        return currentTestSuccess;
-      case 'failure()':
-        return !currentTestSuccess;
-      default:
-        // This should never happen due to validation, but just in case
-        throw new Error(`Invalid condition: ${step.if}`);
-    }
+    return Expression.parse(step.if).evaluateCondition(this.createExpressionScope(executionContext));
   }
 
   public async generateReport(): Promise<void> {
@@ -228,32 +838,167 @@ export class TestEngine {
   }
 
   public async executeTestCase(testCase: TestCase, executionContext: ExecutionContext): Promise<boolean> {
+    this.validateTestCase(testCase);
+
+    // Update execution context
+    executionContext.testCase = testCase;
+    executionContext.stepResults = new Map<string, ActionResult>();
+    await this.resolveTestCaseVars(testCase, executionContext);
+
+    try {
+      return await this.executeSteps(testCase, executionContext);
+    } finally {
+      await this.finishTestCase(executionContext);
+    }
+  }
+
+  /**
+   * Runs the steps of a test suite hook, reported as a setup or teardown fixture. Results of
+   * `beforeAll` and `beforeEach` steps are added to `executionContext.suite` for the test cases.
+   * Returns true when the hook has no steps; errors are reported as a failed fixture, not thrown.
+   */
+  public async executeHook(suite: TestSuiteDefinition, hook: SuiteHook, executionContext: ExecutionContext): Promise<boolean> {
+    const steps = suite[hook];
+    if (!steps || steps.length === 0) {
+      return true;
+    }
+
+    const testCase: TestCase = { kind: 'TestSuite', version: 'v0', name: `${suite.name} ${hook}`, step: steps };
+    executionContext.testCase = testCase;
+    executionContext.testSuccess = true;
+    executionContext.stepResults = new Map<string, ActionResult>();
+    executionContext.reportParentId = hook;
+    if (!executionContext.suite) executionContext.suite = new Map<string, ActionResult>();
+
+    const setup = hook === 'beforeAll' || hook === 'beforeEach';
+    await this.reporter.reportFixtureStart(hook, hook, setup ? 'setup' : 'teardown');
+    let result: ActionResult;
+    try {
+      this.validateTestCase(testCase);
+      const success = await this.executeSteps(testCase, executionContext);
+      const stepResults: Map<string, ActionResult> = executionContext.stepResults;
+      result = success
+        ? { success: true, output: Object.fromEntries(stepResults) }
+        : { success: false, output: { error: this.describeNestedFailure(`Hook '${hook}'`, testCase, stepResults), steps: Object.fromEntries(stepResults) } };
+    } catch (error) {
+      result = { success: false, output: { error: error instanceof Error ? error.message : 'Unknown error' } };
+    }
+
+    if (setup) {
+      for (const [stepId, stepResult] of executionContext.stepResults) {
+        executionContext.suite.set(stepId, stepResult);
+      }
+    }
+    console.log(`  Hook ${hook} of suite ${suite.name}: ${result.success ? 'SUCCESS' : 'FAILED'}`);
+    if (!result.success) {
+      console.log(`    Error: ${Secrets.mask(result.output).error}`);
+    }
+    await this.reporter.reportFixtureEnd(hook, result.success, Secrets.mask(result.output));
+    return result.success;
+  }
+
+  private validateTestCase(testCase: TestCase, outerStepIds: string[] = []): void {
     // Validate dependencies and unique IDs (order-based validation prevents circular dependencies)
     this.validateDependencies(testCase);
-    this.validateIfConditions(testCase);
+    this.validateIfConditions(testCase, outerStepIds);
+    this.validateStepPolicies(testCase, outerStepIds);
+    this.validateCompositeSteps(testCase);
+    this.validateLoops(testCase, outerStepIds);
+    this.validateIsolation(testCase);
+  }
 
+  private async executeSteps(testCase: TestCase, executionContext: ExecutionContext): Promise<boolean> {
     const stepStates = new Map<string, StepState>();
-    const stepResults = new Map<string, ActionResult>();
-    
+    const stepResults: Map<string, ActionResult> = executionContext.stepResults;
+
     // Initialize all steps as pending
     testCase.step.forEach(step => {
       stepStates.set(step.id, { status: StepStatus.PENDING });
     });
 
-    // Update execution context
-    executionContext.testCase = testCase;
-    executionContext.stepResults = stepResults;
-    
     // Check if any steps have dependencies
     const hasStepsWithDependencies = testCase.step.some(step => step.depends_on && step.depends_on.length > 0);
-    
+
     if (!hasStepsWithDependencies) {
       // No dependencies - use sequential execution for full backward compatibility
-      return await this.executeStepsSequentially(testCase, executionContext, stepStates, stepResults);
+      return this.executeStepsSequentially(testCase, executionContext, stepStates, stepResults);
     }
 
     // Has dependencies - use parallel execution with dependency management
-    return await this.executeStepsWithDependencies(testCase, executionContext, stepStates, stepResults);
+    return this.executeStepsWithDependencies(testCase, executionContext, stepStates, stepResults);
+  }
+
+  /**
+   * Runs the callbacks that actions registered with onTestCaseEnd, e.g. rolling back the
+   * transaction of a test case with `isolation: transaction`. Callbacks run in reverse order.
+   */
+  public async finishTestCase(executionContext: ExecutionContext): Promise<void> {
+    const cleanups = executionContext.cleanups || [];
+    executionContext.cleanups = [];
+
+    for (const cleanup of cleanups.reverse()) {
+      try {
+        await cleanup();
+      } catch (error) {
+        console.log(`  Cleanup of ${executionContext.testCaseId} failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+  }
+
+  private validateCompositeSteps(testCase: TestCase): void {
+    for (const step of testCase.step) {
+      if (step.kind !== TestEngine.COMPOSITE_KIND) continue;
+      if (typeof step.uses !== 'string' || step.uses === '') {
+        throw new Error(`Step '${step.id}' of kind ${TestEngine.COMPOSITE_KIND} requires uses, the path of a composite file`);
+      }
+      if (step.with !== undefined && (typeof step.with !== 'object' || step.with === null || Array.isArray(step.with))) {
+        throw new Error(`Invalid with in step '${step.id}'. with must be a map of input names to values`);
+      }
+    }
+  }
+
+  private validateLoops(testCase: TestCase, outerStepIds: string[]): void {
+    for (const step of testCase.step) {
+      if (step.kind === TestEngine.GROUP_KIND) {
+        if (!Array.isArray(step.steps) || step.steps.length === 0) {
+          throw new Error(`Step '${step.id}' of kind ${TestEngine.GROUP_KIND} requires steps, a non-empty list of nested steps`);
+        }
+        // Nested steps may refer to the steps around the group
+        this.validateTestCase(this.createGroupTestCase(step, testCase.isolation), [...outerStepIds, ...testCase.step.map(s => s.id)]);
+      } else if (step.steps !== undefined) {
+        throw new Error(`Invalid steps in step '${step.id}'. Only steps of kind ${TestEngine.GROUP_KIND} have nested steps`);
+      }
+
+      if (step.foreach !== undefined && step.repeat !== undefined) {
+        throw new Error(`Step '${step.id}' cannot have both foreach and repeat`);
+      }
+      if (step.foreach !== undefined && !Array.isArray(step.foreach) && typeof step.foreach !== 'string') {
+        throw new Error(`Invalid foreach in step '${step.id}'. foreach must be a list or a reference to one`);
+      }
+      if (step.repeat !== undefined && typeof step.repeat !== 'string' && !(Number.isInteger(step.repeat) && step.repeat >= 0)) {
+        throw new Error(`Invalid repeat '${step.repeat}' in step '${step.id}'. repeat must be a non-negative integer`);
+      }
+
+      if (step.loop !== undefined) {
+        if (step.foreach === undefined && step.repeat === undefined) {
+          throw new Error(`Invalid loop in step '${step.id}'. loop options require foreach or repeat`);
+        }
+        const { parallel, failFast } = step.loop;
+        if (parallel !== undefined && !(Number.isInteger(Number(parallel)) && Number(parallel) >= 1)) {
+          throw new Error(`Invalid loop.parallel '${parallel}' in step '${step.id}'. parallel must be an integer of at least 1`);
+        }
+        if (failFast !== undefined && typeof failFast !== 'boolean') {
+          throw new Error(`Invalid loop.failFast '${failFast}' in step '${step.id}'. failFast must be true or false`);
+        }
+      }
+    }
+  }
+
+  private validateIsolation(testCase: TestCase): void {
+    const validModes = ['none', 'transaction'];
+    if (testCase.isolation !== undefined && !validModes.includes(testCase.isolation)) {
+      throw new Error(`Invalid isolation '${testCase.isolation}'. Valid values are: ${validModes.join(', ')}`);
+    }
   }
 
   private async executeStepsSequentially(
@@ -331,7 +1076,9 @@ export class TestEngine {
                 };
                 stepStates.set(step.id, { status: StepStatus.FAILED, result: failureResult });
                 stepResults.set(step.id, failureResult);
-                await this.reporter.reportStepEnd(step.id, false, failureResult.output);
+                const reportId = this.getReportId(executionContext, step.id);
+                await this.reporter.reportStepStart(reportId, step.name, step.kind, executionContext.reportParentId);
+                await this.reporter.reportStepEnd(reportId, false, failureResult.output);
                 overallTestSuccess = false;
                 executionContext.testSuccess = false;  // Update execution context for conditional logic
                 return;
@@ -0,0 +1,85 @@
+import { StepDefinition } from './actions/base-action';
+import * as fs from 'fs';
+import * as YAML from 'yamljs';
+
+export type SuiteHook = 'beforeAll' | 'afterAll' | 'beforeEach' | 'afterEach';
+
+export interface TestSuiteDefinition {
+  kind: string;
+  name: string;
+  description?: string;
+  // Test case files or directories, relative to the suite file
+  tests: string[];
+  beforeAll?: StepDefinition[];
+  afterAll?: StepDefinition[];
+  beforeEach?: StepDefinition[];
+  afterEach?: StepDefinition[];
+}
+
+/**
+ * TestSuites class that loads test suite files, which run a set of test cases between shared
+ * setup and teardown hooks.
+ *
+ * example suite file:
+ * ```yaml
+ * kind: TestSuite/v0
+ * name: Orders API
+ * tests:
+ * - suite/orders
+ * beforeAll:
+ * - name: Log in
+ *   id: login
+ *   kind: RestApiCall
+ *   params:
+ *     url: "{config.baseUrl}/login"
+ *     method: POST
+ * afterAll:
+ * - name: Remove test orders
+ *   kind: PostgreSQL
+ *   params:
+ *     query: DELETE FROM orders WHERE created_by = 'suite'
+ * ```
+ *
+ * `beforeAll` and `afterAll` run once around all test cases, `beforeEach` and `afterEach` around
+ * every test case. Test cases read the results of the setup hooks as `{suite.<stepId>...}`. Hook
+ * steps without an id get `#<index>` like test case steps.
+ */
+export class TestSuites {
+  public static readonly HOOKS: SuiteHook[] = ['beforeAll', 'afterAll', 'beforeEach', 'afterEach'];
+
+  public static isSuite(document: any): boolean {
+    return !!document && typeof document.kind === 'string' && document.kind.startsWith('TestSuite/');
+  }
+
+  public static load(filePath: string): TestSuiteDefinition {
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Test suite file not found: ${filePath}`);
+    }
+    const definition = YAML.parse(fs.readFileSync(filePath, 'utf8')) as TestSuiteDefinition;
+    TestSuites.validate(definition, filePath);
+    for (const hook of TestSuites.HOOKS) {
+      (definition[hook] || []).forEach((step, index) => {
+        if (!step.id) step.id = `#${index + 1}`;
+      });
+    }
+    return definition;
+  }
+
+  private static validate(definition: TestSuiteDefinition, filePath: string): void {
+    if (!definition || typeof definition !== 'object') {
+      throw new Error(`Test suite file ${filePath} is empty or not a YAML object`);
+    }
+    if (definition.kind !== 'TestSuite/v0') {
+      throw new Error(`Test suite file ${filePath} must have kind: TestSuite/v0, got '${definition.kind}'`);
+    }
+    if (!Array.isArray(definition.tests) || definition.tests.length === 0 || definition.tests.some(test => typeof test !== 'string')) {
+      throw new Error(`Test suite file ${filePath} must have tests, a non-empty list of test case files or directories`);
+    }
+    for (const hook of TestSuites.HOOKS) {
+      const steps = definition[hook];
+      if (steps !== undefined && (!Array.isArray(steps) || steps.some(step => !step || typeof step !== 'object'))) {
+        throw new Error(`${hook} of test suite file ${filePath} must be a list of steps`);
+      }
+    }
+  }
+}
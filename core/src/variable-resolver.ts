@@ -0,0 +1,212 @@
+import { ActionResult } from './actions/base-action';
+import { ExecutionContext } from './test-engine';
+import { PathSegment } from './expression';
+import { Config } from './config';
+import { Secrets } from './secrets';
+import { GENERATORS, parseGeneratorCall } from './generators';
+import { JsonPath } from './json-path';
+
+export interface VariableResolverOptions {
+  strict: boolean;
+  stepIds: string[];
+  // Values bound by a loop, e.g. { item, index }
+  locals?: Record<string, any>;
+}
+
+const REFERENCE_PATTERN = /\{([^{}]+)\}/g;
+const WHOLE_REFERENCE_PATTERN = /^\{([^{}]+)\}$/;
+const PATH_PATTERN = /^[\w#-]+(\.[\w#-]+|\[-?\d+\])*$/;
+
+/**
+ * VariableResolver class that resolves `{...}` references in step definitions.
+ *
+ * A value that consists of exactly one reference resolves to the referenced value with its
+ * original type, so `"{setup-data.output.result.rows[0].id}"` yields the number 1 rather than "1".
+ * References embedded in a longer string are interpolated as text, with objects rendered as JSON.
+ *
+ * Besides step results, references can read `config.<key>` through Config.get, `env.<NAME>` from
+ * the process environment and `secrets.<name>` from the configured secret provider. Secrets must be
+ * fetched with loadSecrets() before resolve() is called. `vars.<name>` reads test case variables,
+ * `params.<name>` the parameters of a data-driven test case instance, and `inputs.<name>` the inputs
+ * of the composite action that runs the step. Inside a `foreach` or `repeat` loop, `{item}` and
+ * `{index}` read the current iteration. `suite.<stepId>` reads the result of a setup hook step of the
+ * test suite that runs the test case.
+ *
+ * A reference may pipe its value through a JSONPath query, e.g.
+ * `{api-call.output.response.body | $.items[?(@.active)].id}`. Array indexes may be negative
+ * to count from the end, e.g. `{list.output.result.rows[-1].id}`.
+ *
+ * Generator calls such as `{uuid()}`, `{now()}`, `{randomInt(1, 100)}` and `{randomString(8)}`
+ * produce a fresh value every time they are resolved.
+ *
+ * In strict mode a reference to a known name (a step id, `testCaseId`, `testCaseName`, `config`,
+ * `env`, `secrets`, `vars`, `params`, `inputs` or `suite`) that cannot be resolved throws an error instead of leaving the `{...}` text in place.
+ */
+export class VariableResolver {
+  private static readonly NAMESPACES = ['testCaseId', 'testCaseName', 'config', 'env', 'secrets', 'vars', 'params', 'inputs', 'suite'];
+  private context: ExecutionContext;
+  private stepResults: Map<string, ActionResult>;
+  private options: VariableResolverOptions;
+  private secretValues: Map<string, string> = new Map();
+
+  constructor(context: ExecutionContext, stepResults: Map<string, ActionResult>, options: VariableResolverOptions) {
+    this.context = context;
+    this.stepResults = stepResults;
+    this.options = options;
+  }
+
+  /**
+   * Fetches every secret referenced in the value from the secret provider.
+   */
+  public async loadSecrets(value: any): Promise<void> {
+    const names = new Set<string>();
+    const collect = (item: any): void => {
+      if (typeof item === 'string') {
+        for (const match of item.matchAll(REFERENCE_PATTERN)) {
+          const path = VariableResolver.parsePath(VariableResolver.splitReference(match[1]).base);
+          if (path && path[0] === 'secrets' && path.length > 1) {
+            names.add(path.slice(1).join('.'));
+          }
+        }
+      } else if (Array.isArray(item)) {
+        item.forEach(collect);
+      } else if (item && typeof item === 'object') {
+        Object.values(item).forEach(collect);
+      }
+    };
+    collect(value);
+
+    for (const name of names) {
+      const secret = await Secrets.get(name);
+      if (secret !== undefined) {
+        this.secretValues.set(name, secret);
+      }
+    }
+  }
+
+  public resolve(value: any): any {
+    if (typeof value === 'string') {
+      return this.resolveString(value);
+    } else if (Array.isArray(value)) {
+      return value.map(item => this.resolve(item));
+    } else if (value && typeof value === 'object') {
+      const result: any = {};
+      for (const [key, item] of Object.entries(value)) {
+        result[key] = this.resolve(item);
+      }
+      return result;
+    }
+    return value;
+  }
+
+  private resolveString(text: string): any {
+    const wholeMatch = WHOLE_REFERENCE_PATTERN.exec(text);
+    if (wholeMatch) {
+      const resolved = this.resolveReference(wholeMatch[1]);
+      return resolved.found ? resolved.value : text;
+    }
+
+    return text.replace(REFERENCE_PATTERN, (match, reference) => {
+      const resolved = this.resolveReference(reference);
+      if (!resolved.found) return match;
+      return typeof resolved.value === 'object' ? JSON.stringify(resolved.value) : String(resolved.value);
+    });
+  }
+
+  private resolveReference(reference: string): { found: boolean; value?: any } {
+    const call = parseGeneratorCall(reference);
+    if (call) {
+      return { found: true, value: GENERATORS[call.name](...call.args) };
+    }
+
+    const { base, query } = VariableResolver.splitReference(reference);
+    const path = VariableResolver.parsePath(base);
+    // Text such as inline JSON is not a reference and is left untouched
+    if (!path || !this.isKnownRoot(String(path[0]))) {
+      return { found: false };
+    }
+
+    let value = this.lookup(path);
+    if (query && value !== undefined) {
+      value = JsonPath.query(value, query);
+    }
+    if (value === undefined) {
+      if (this.options.strict) {
+        throw new Error(`Unresolved variable reference '{${reference}}'`);
+      }
+      return { found: false };
+    }
+    return { found: true, value };
+  }
+
+  private isKnownRoot(root: string): boolean {
+    return VariableResolver.NAMESPACES.includes(root) || root in (this.options.locals || {}) || this.options.stepIds.includes(root) || this.stepResults.has(root);
+  }
+
+  private lookup(path: PathSegment[]): any {
+    const [root, ...rest] = path;
+    if (this.options.locals && String(root) in this.options.locals) {
+      return VariableResolver.getPath(this.options.locals[String(root)], rest);
+    }
+    switch (root) {
+      case 'testCaseId':
+        return VariableResolver.getPath(this.context.testCaseId, rest);
+      case 'testCaseName':
+        return VariableResolver.getPath(this.context.testCaseName, rest);
+      case 'config':
+        return rest.length > 0 ? Config.get(rest.join('.')) : undefined;
+      case 'env':
+        return rest.length === 1 ? process.env[String(rest[0])] : undefined;
+      case 'secrets':
+        return this.secretValues.get(rest.join('.'));
+      case 'vars':
+        return VariableResolver.getPath(this.context.vars, rest);
+      case 'params':
+        return VariableResolver.getPath(this.context.params, rest);
+      case 'inputs':
+        return VariableResolver.getPath(this.context.inputs, rest);
+      case 'suite':
+        return VariableResolver.getPath(this.context.suite?.get(String(rest[0])), rest.slice(1));
+      default:
+        return VariableResolver.getPath(this.stepResults.get(String(root)), rest);
+    }
+  }
+
+  // Splits `step.output.body | $.items[0]` into the reference and the JSONPath query
+  private static splitReference(reference: string): { base: string; query?: string } {
+    const pipeIndex = reference.indexOf('|');
+    if (pipeIndex === -1) {
+      return { base: reference.trim() };
+    }
+    return { base: reference.slice(0, pipeIndex).trim(), query: reference.slice(pipeIndex + 1).trim() };
+  }
+
+  /**
+   * Parses a reference such as `step.output.rows[0].id` into ['step', 'output', 'rows', 0, 'id'].
+   * Returns null when the text is not a valid reference.
+   */
+  public static parsePath(reference: string): PathSegment[] | null {
+    if (!PATH_PATTERN.test(reference)) {
+      return null;
+    }
+
+    const segments: PathSegment[] = [];
+    for (const part of reference.split('.')) {
+      const [key, ...indexes] = part.split('[');
+      if (key) segments.push(key);
+      for (const index of indexes) {
+        segments.push(parseInt(index.replace(']', ''), 10));
+      }
+    }
+    return segments;
+  }
+
+  public static getPath(value: any, path: PathSegment[]): any {
+    for (const key of path) {
+      if (value === undefined || value === null) return undefined;
+      // Negative indexes count from the end of an array
+      value = typeof key === 'number' && key < 0 && Array.isArray(value) ? value[value.length + key] : value[key];
+    }
+    return value;
+  }
+}
@@ -1,12 +1,30 @@
-import { TestEngine } from '../../core/src/test-engine';
+import { TestEngine, ExecutionContext } from '../../core/src/test-engine';
 import { ActionRegistry } from '../../core/src/action-registry';
 import { AllureReporter } from '../../core/src/reporters/allure-reporter';
 import { Config } from '../../core/src/config';
+import { Secrets } from '../../core/src/secrets';
+import { TestCaseParameters, TestCaseInstance } from '../../core/src/test-case-parameters';
+import { TestSuites, TestSuiteDefinition } from '../../core/src/test-suites';
+import { FileSecretProvider } from '../../core/src/secret-providers/file-secret-provider';
 import { EchoAction } from '../../core/src/actions/echo-action';
 import { NopAction } from '../../core/src/actions/nop-action';
 import { FailAction } from '../../core/src/actions/fail-action';
 import { RestApiCallAction } from '../../core/src/actions/rest-api-action';
 import { PostgreSQLAction } from '../../core/src/actions/postgresql-action';
+import { MySQLAction } from '../../core/src/actions/mysql-action';
+import { SQLiteAction } from '../../core/src/actions/sqlite-action';
+import { ExecAction } from '../../core/src/actions/exec-action';
+import { GraphQLAction } from '../../core/src/actions/graphql-action';
+import { GrpcAction } from '../../core/src/actions/grpc-action';
+import { WebSocketAction } from '../../core/src/actions/websocket-action';
+import { SseAction } from '../../core/src/actions/sse-action';
+import { WaitForAction } from '../../core/src/actions/wait-for-action';
+import { MockServerStartAction } from '../../core/src/actions/mock-server-start-action';
+import { MockServerStopAction } from '../../core/src/actions/mock-server-stop-action';
+import { MockServerVerifyAction } from '../../core/src/actions/mock-server-verify-action';
+import { AssertAction } from '../../core/src/actions/assert-action';
+import { DbFixtureAction } from '../../core/src/actions/db-fixture-action';
+import { DbSnapshotAction } from '../../core/src/actions/db-snapshot-action';
 import { StepDefinition } from '../../core/src/actions/base-action';
 import * as path from 'path';
 import * as fs from 'fs';
@@ -91,6 +109,12 @@ async function runTests() {
     // Load configuration
     Config.load('./config.yaml');
 
+    // Secrets referenced as {secrets.<name>} are read from the configured file and masked in output
+    const secretsFile = Config.get('secrets.file');
+    if (secretsFile) {
+      Secrets.setProvider(new FileSecretProvider(secretsFile));
+    }
+
     // Initialize engine with config
     const engine = new TestEngine(reporter);
 
@@ -147,7 +171,10 @@ async function runTests() {
       const executionContext = {
         testCaseId: testCase.id || testCase.name || 'random',
         testCaseName: testCase.name || 'random',
+        testFilePath: firstTestFile,
         testCase,
+        // Random steps of a data-driven test case use the parameters of its first instance
+        params: TestCaseParameters.isParameterized(testCase) ? TestCaseParameters.expand(testCase, path.dirname(firstTestFile))[0].params : {},
         testSuccess: true,
         stepResults: new Map()
       };
@@ -166,7 +193,7 @@ async function runTests() {
             totalPassed++;
           } else {
             console.log(`❌ Step ${randomStep.id}: FAIL`);
-            console.log(`    Error: ${JSON.stringify(result.output, null, 2)}`);
+            console.log(`    Error: ${JSON.stringify(Secrets.mask(result.output), null, 2)}`);
             totalFailed++;
           }
         } catch (error) {
@@ -178,47 +205,177 @@ async function runTests() {
         }
       }
       
+      // Roll back test case transactions and release other per-test-case resources
+      await engine.finishTestCase(executionContext);
+
       // テスト終了を報告
       await reporter.reportTestEnd(executionContext.testCaseId, totalFailed === 0);
     } else {
+      // Suite files run their test cases between the suite hooks, so those test cases are not run on their own
+      const suites = new Map<string, { suite: TestSuiteDefinition; testFiles: string[] }>();
+      const suiteErrors = new Map<string, string>();
+      const suiteTestFiles = new Set<string>();
+      for (const testFile of allTestFiles) {
+        try {
+          // A file that is not valid YAML is reported as failed instead of aborting the run
+          if (!TestSuites.isSuite(YAML.parse(fs.readFileSync(testFile, 'utf8')))) continue;
+          const suite = TestSuites.load(testFile);
+          const testFiles: string[] = [];
+          for (const test of suite.tests) {
+            testFiles.push(...await findTestFiles(path.resolve(path.dirname(testFile), test)));
+          }
+          suites.set(testFile, { suite, testFiles });
+          testFiles.forEach(file => suiteTestFiles.add(file));
+        } catch (error) {
+          suiteErrors.set(testFile, error instanceof Error ? error.message : 'Unknown error');
+        }
+      }
+
       // 通常モード: 各テストファイルをロードし、全ステップを順次実行
       for (const testFile of allTestFiles) {
         const relativePath = path.relative('.', testFile);
-        console.log(`\n🔍 Running ${relativePath}...`);
-        const testCase = loadTestCaseWithStepIds(testFile);
-        const executionContext = {
-          testCaseId: testCase.id || testCase.name || relativePath,
-          testCaseName: testCase.name || relativePath,
+        if (suiteErrors.has(testFile)) {
+          console.log(`❌ ${relativePath}: ERROR - ${suiteErrors.get(testFile)}`);
+          await reporter.reportTestStart(relativePath, relativePath);
+          await reporter.reportTestEnd(relativePath, false);
+          totalFailed++;
+        } else if (suites.has(testFile)) {
+          const { suite, testFiles } = suites.get(testFile)!;
+          await runSuite(testFile, suite, testFiles);
+        } else if (!suiteTestFiles.has(testFile)) {
+          await runTestFile(testFile);
+        }
+      }
+    }
+
+    async function runSuite(suiteFile: string, suite: TestSuiteDefinition, testFiles: string[]): Promise<void> {
+      console.log(`\n🧩 Running suite ${path.relative('.', suiteFile)} (${testFiles.length} test file(s))...`);
+      await reporter.reportSuiteStart(suite.name);
+      const suiteContext: ExecutionContext = {
+        testCaseId: suite.name,
+        testCaseName: suite.name,
+        testFilePath: suiteFile,
+        testSuccess: true,
+        stepResults: new Map(),
+        suite: new Map()
+      };
+
+      // Teardown runs even when the setup or a test case fails
+      try {
+        if (await engine.executeHook(suite, 'beforeAll', suiteContext)) {
+          for (const testFile of testFiles) {
+            await runTestFile(testFile, suite, suiteContext);
+          }
+        } else {
+          for (const testFile of testFiles) {
+            const relativePath = path.relative('.', testFile);
+            console.log(`❌ ${relativePath}: ERROR - beforeAll of suite ${suite.name} failed`);
+            await reporter.reportTestStart(relativePath, relativePath);
+            await reporter.reportTestEnd(relativePath, false);
+            totalFailed++;
+          }
+        }
+      } finally {
+        if (!(await engine.executeHook(suite, 'afterAll', suiteContext))) {
+          console.log(`❌ ${path.relative('.', suiteFile)}: afterAll of suite ${suite.name} failed`);
+          totalFailed++;
+        }
+        await engine.finishTestCase(suiteContext);
+        await reporter.reportSuiteEnd(suite.name);
+      }
+    }
+
+    async function runTestFile(testFile: string, suite?: TestSuiteDefinition, suiteContext?: ExecutionContext): Promise<void> {
+      const relativePath = path.relative('.', testFile);
+      console.log(`\n🔍 Running ${relativePath}...`);
+      const testCase = loadTestCaseWithStepIds(testFile);
+
+      // Data-driven test cases run once per matrix combination or dataset row
+      let instances: TestCaseInstance[] = [{ suffix: '', params: {} }];
+      if (TestCaseParameters.isParameterized(testCase)) {
+        try {
+          instances = TestCaseParameters.expand(testCase, path.dirname(testFile));
+          console.log(`  Expanded into ${instances.length} test case instance(s)`);
+        } catch (error) {
+          console.log(`❌ ${relativePath}: ERROR - ${error instanceof Error ? error.message : 'Unknown error'}`);
+          await reporter.reportTestStart(testCase.id || testCase.name || relativePath, testCase.name || relativePath);
+          await reporter.reportTestEnd(testCase.id || testCase.name || relativePath, false);
+          totalFailed++;
+          return;
+        }
+      }
+
+      for (const instance of instances) {
+        const label = `${relativePath}${instance.suffix}`;
+        const executionContext: ExecutionContext = {
+          testCaseId: `${testCase.id || testCase.name || relativePath}${instance.suffix}`,
+          testCaseName: `${testCase.name || relativePath}${instance.suffix}`,
+          testFilePath: testFile,
           testCase,
+          params: instance.params,
+          testSuccess: true,
+          stepResults: new Map()
+        };
+
+        // beforeEach and afterEach of a suite share the session and the suite results with the test case
+        const hookContext: ExecutionContext | undefined = suite && suiteContext && {
+          testCaseId: executionContext.testCaseId,
+          testCaseName: executionContext.testCaseName,
+          testFilePath: suiteContext.testFilePath,
+          params: instance.params,
+          session: new Map(),
+          suite: new Map(suiteContext.suite),
           testSuccess: true,
           stepResults: new Map()
         };
-        
+        if (hookContext) {
+          executionContext.session = hookContext.session;
+          executionContext.suite = hookContext.suite;
+        }
+
         // テスト開始を報告
-        await reporter.reportTestStart(executionContext.testCaseId, executionContext.testCaseName);
-        
+        await reporter.reportTestStart(executionContext.testCaseId, executionContext.testCaseName, instance.params);
+
         // Use the new dependency-aware execution method
+        let allPassed = false;
+        let errorMessage: string | undefined;
         try {
-          const allPassed = await engine.executeTestCase(testCase, executionContext);
-          
-          // テスト終了を報告
-          await reporter.reportTestEnd(executionContext.testCaseId, allPassed);
-          
-          if (allPassed) {
-            console.log(`✅ ${relativePath}: PASS`);
-            totalPassed++;
+          if (!hookContext || await engine.executeHook(suite!, 'beforeEach', hookContext)) {
+            allPassed = await engine.executeTestCase(testCase, executionContext);
           } else {
-            console.log(`❌ ${relativePath}: FAIL`);
-            totalFailed++;
+            errorMessage = `beforeEach of suite ${suite!.name} failed`;
           }
         } catch (error) {
-          console.log(`❌ ${relativePath}: ERROR - ${error instanceof Error ? error.message : 'Unknown error'}`);
-          await reporter.reportTestEnd(executionContext.testCaseId, false);
+          errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        }
+
+        if (hookContext) {
+          if (!(await engine.executeHook(suite!, 'afterEach', hookContext))) {
+            allPassed = false;
+            errorMessage = errorMessage || `afterEach of suite ${suite!.name} failed`;
+          }
+          await engine.finishTestCase(hookContext);
+        }
+
+        // テスト終了を報告
+        await reporter.reportTestEnd(executionContext.testCaseId, allPassed);
+
+        if (errorMessage) {
+          console.log(`❌ ${label}: ERROR - ${errorMessage}`);
+          totalFailed++;
+        } else if (allPassed) {
+          console.log(`✅ ${label}: PASS`);
+          totalPassed++;
+        } else {
+          console.log(`❌ ${label}: FAIL`);
           totalFailed++;
         }
       }
     }
     
+    // Close connection pools and other resources that actions keep for the whole run
+    await ActionRegistry.disposeAll();
+
     // Generate reports
     console.log('\n📊 Generating Allure reports...');
     await engine.generateReport();
@@ -259,6 +416,20 @@ ActionRegistry.register('Nop', new NopAction());
 ActionRegistry.register('Fail', new FailAction());
 ActionRegistry.register('RestApiCall', new RestApiCallAction());
 ActionRegistry.register('PostgreSQL', new PostgreSQLAction());
+ActionRegistry.register('MySQL', new MySQLAction());
+ActionRegistry.register('SQLite', new SQLiteAction());
+ActionRegistry.register('Assert', new AssertAction());
+ActionRegistry.register('DbFixture', new DbFixtureAction());
+ActionRegistry.register('DbSnapshot', new DbSnapshotAction());
+ActionRegistry.register('Exec', new ExecAction());
+ActionRegistry.register('GraphQL', new GraphQLAction());
+ActionRegistry.register('Grpc', new GrpcAction());
+ActionRegistry.register('WebSocket', new WebSocketAction());
+ActionRegistry.register('SSE', new SseAction());
+ActionRegistry.register('WaitFor', new WaitForAction());
+ActionRegistry.register('MockServerStart', new MockServerStartAction());
+ActionRegistry.register('MockServerStop', new MockServerStopAction());
+ActionRegistry.register('MockServerVerify', new MockServerVerifyAction());
 
 
 main().catch(error => {
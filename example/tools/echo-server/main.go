@@ -1,12 +1,22 @@
 package main
 
 import (
+	"bufio"
+	"crypto/sha1"
+	"encoding/base64"
+	"encoding/binary"
+	"fmt"
 	"io"
 	"log"
 	"net/http"
+	"strconv"
 	"strings"
+	"time"
 )
 
+// WebSocketハンドシェイクでSec-WebSocket-Keyに連結するGUID (RFC 6455)
+const websocketGUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11"
+
 func echoHandler(w http.ResponseWriter, r *http.Request) {
 	// リクエストヘッダーをログ出力
 	log.Println("=== Request Headers ===")
@@ -57,9 +67,164 @@ func echoHandler(w http.ResponseWriter, r *http.Request) {
 	log.Println(strings.Repeat("-", 50))
 }
 
+// Server-Sent Eventsを返すハンドラー
+// クエリパラメータ: count (イベント数, デフォルト3), interval (ミリ秒, デフォルト100), message (イベントに含める文字列)
+func eventsHandler(w http.ResponseWriter, r *http.Request) {
+	flusher, ok := w.(http.Flusher)
+	if !ok {
+		http.Error(w, "Streaming unsupported", http.StatusInternalServerError)
+		return
+	}
+
+	count, err := strconv.Atoi(r.URL.Query().Get("count"))
+	if err != nil || count <= 0 {
+		count = 3
+	}
+	interval, err := strconv.Atoi(r.URL.Query().Get("interval"))
+	if err != nil || interval < 0 {
+		interval = 100
+	}
+	message := r.URL.Query().Get("message")
+
+	w.Header().Set("Content-Type", "text/event-stream")
+	w.Header().Set("Cache-Control", "no-cache")
+	w.WriteHeader(http.StatusOK)
+	fmt.Fprint(w, ": connected\n\n")
+	flusher.Flush()
+
+	log.Printf("=== SSE stream: %d event(s) every %dms ===", count, interval)
+	for i := 1; i <= count; i++ {
+		select {
+		case <-r.Context().Done():
+			log.Println("SSE client disconnected")
+			return
+		case <-time.After(time.Duration(interval) * time.Millisecond):
+		}
+
+		// 最後のイベントだけ種類を変える
+		event := "tick"
+		if i == count {
+			event = "done"
+		}
+		fmt.Fprintf(w, "id: %d\nevent: %s\ndata: {\"n\": %d, \"message\": %s}\n\n", i, event, i, strconv.Quote(message))
+		flusher.Flush()
+	}
+}
+
+// 受信したWebSocketメッセージをそのまま送り返すハンドラー
+func websocketHandler(w http.ResponseWriter, r *http.Request) {
+	key := r.Header.Get("Sec-WebSocket-Key")
+	if !strings.EqualFold(r.Header.Get("Upgrade"), "websocket") || key == "" {
+		http.Error(w, "Expected a WebSocket upgrade request", http.StatusBadRequest)
+		return
+	}
+
+	hijacker, ok := w.(http.Hijacker)
+	if !ok {
+		http.Error(w, "WebSocket unsupported", http.StatusInternalServerError)
+		return
+	}
+	conn, rw, err := hijacker.Hijack()
+	if err != nil {
+		log.Printf("Error upgrading connection: %v", err)
+		return
+	}
+	defer conn.Close()
+
+	hash := sha1.Sum([]byte(key + websocketGUID))
+	rw.WriteString("HTTP/1.1 101 Switching Protocols\r\n")
+	rw.WriteString("Upgrade: websocket\r\nConnection: Upgrade\r\n")
+	rw.WriteString("Sec-WebSocket-Accept: " + base64.StdEncoding.EncodeToString(hash[:]) + "\r\n\r\n")
+	rw.Flush()
+	log.Println("=== WebSocket connected ===")
+
+	for {
+		opcode, payload, err := readFrame(rw.Reader)
+		if err != nil {
+			log.Printf("WebSocket closed: %v", err)
+			return
+		}
+
+		switch opcode {
+		case 0x1, 0x2: // テキスト / バイナリ: エコーバック
+			log.Printf("WebSocket message: %s", string(payload))
+			writeFrame(rw.Writer, opcode, payload)
+		case 0x8: // クローズ: 同じステータスコードで応答して終了
+			writeFrame(rw.Writer, 0x8, payload)
+			log.Println("WebSocket closed by client")
+			return
+		case 0x9: // ping: pongで応答
+			writeFrame(rw.Writer, 0xA, payload)
+		}
+	}
+}
+
+// クライアントからのフレームを1つ読み取る (フラグメント化されたメッセージは扱わない)
+func readFrame(r *bufio.Reader) (byte, []byte, error) {
+	header := make([]byte, 2)
+	if _, err := io.ReadFull(r, header); err != nil {
+		return 0, nil, err
+	}
+	opcode := header[0] & 0x0F
+	masked := header[1]&0x80 != 0
+	length := uint64(header[1] & 0x7F)
+
+	switch length {
+	case 126:
+		extended := make([]byte, 2)
+		if _, err := io.ReadFull(r, extended); err != nil {
+			return 0, nil, err
+		}
+		length = uint64(binary.BigEndian.Uint16(extended))
+	case 127:
+		extended := make([]byte, 8)
+		if _, err := io.ReadFull(r, extended); err != nil {
+			return 0, nil, err
+		}
+		length = binary.BigEndian.Uint64(extended)
+	}
+
+	mask := make([]byte, 4)
+	if masked {
+		if _, err := io.ReadFull(r, mask); err != nil {
+			return 0, nil, err
+		}
+	}
+	payload := make([]byte, length)
+	if _, err := io.ReadFull(r, payload); err != nil {
+		return 0, nil, err
+	}
+	if masked {
+		for i := range payload {
+			payload[i] ^= mask[i%4]
+		}
+	}
+	return opcode, payload, nil
+}
+
+// サーバーからのフレームを書き込む (サーバー側はマスクしない)
+func writeFrame(w *bufio.Writer, opcode byte, payload []byte) error {
+	w.WriteByte(0x80 | opcode)
+	length := len(payload)
+	switch {
+	case length < 126:
+		w.WriteByte(byte(length))
+	case length <= 0xFFFF:
+		w.WriteByte(126)
+		binary.Write(w, binary.BigEndian, uint16(length))
+	default:
+		w.WriteByte(127)
+		binary.Write(w, binary.BigEndian, uint64(length))
+	}
+	w.Write(payload)
+	return w.Flush()
+}
+
 func main() {
 	// ルートハンドラーを設定
 	http.HandleFunc("/", echoHandler)
+	http.HandleFunc("/events", eventsHandler)
+	http.HandleFunc("/ws", websocketHandler)
 
 	// サーバー起動ログ
 	port := ":8080"
@@ -0,0 +1,66 @@
+// Echo gRPC server for the Grpc test cases, with server reflection enabled
+const path = require('path');
+const grpc = require('@grpc/grpc-js');
+const protoLoader = require('@grpc/proto-loader');
+const { ReflectionService } = require('@grpc/reflection');
+
+const PROTO_DIR = process.env.PROTO_DIR || path.join(__dirname, '../../protos');
+const PORT = process.env.PORT || '50051';
+
+const packageDefinition = protoLoader.loadSync(path.join(PROTO_DIR, 'echo.proto'), {
+  keepCase: true,
+  defaults: true
+});
+const { echo } = grpc.loadPackageDefinition(packageDefinition);
+
+function metadataOf(call) {
+  const metadata = {};
+  for (const [key, value] of Object.entries(call.metadata.getMap())) {
+    metadata[key] = Buffer.isBuffer(value) ? value.toString('base64') : value;
+  }
+  return metadata;
+}
+
+function response(call, message, sequence) {
+  const now = Date.now();
+  return {
+    message,
+    sequence,
+    metadata: metadataOf(call),
+    received_at: { seconds: Math.floor(now / 1000), nanos: (now % 1000) * 1e6 }
+  };
+}
+
+const server = new grpc.Server();
+server.addService(echo.v1.EchoService.service, {
+  Echo(call, callback) {
+    call.sendMetadata(new grpc.Metadata());
+    const { message, fail_with_code: code } = call.request;
+    if (code) {
+      const trailer = new grpc.Metadata();
+      trailer.set('x-failed-message', message);
+      callback({ code, details: `failed as requested: ${message}`, metadata: trailer });
+      return;
+    }
+    const trailer = new grpc.Metadata();
+    trailer.set('x-echo-length', String(message.length));
+    callback(null, response(call, message, 1), trailer);
+  },
+
+  StreamEcho(call) {
+    const { message, repeat } = call.request;
+    for (let sequence = 1; sequence <= (repeat || 1); sequence++) {
+      call.write(response(call, message, sequence));
+    }
+    call.end();
+  }
+});
+new ReflectionService(packageDefinition).addToServer(server);
+
+server.bindAsync(`0.0.0.0:${PORT}`, grpc.ServerCredentials.createInsecure(), (error, port) => {
+  if (error) {
+    console.error(error);
+    process.exit(1);
+  }
+  console.log(`gRPC echo server listening on :${port}`);
+});